@@ -12,7 +12,17 @@ import statsRoutes from "./src/routes/statsRoutes.js";
 import poolRoutes from "./src/routes/poolRoutes.js";
 import expenseRoutes from "./src/routes/expenseRoutes.js";
 import adminRoutes from "./src/routes/adminRoutes.js";
+import notificationRoutes from "./src/routes/notificationRoutes.js";
+import fileRoutes from "./src/routes/fileRoutes.js";
 import { MongoURL } from "./src/config/envVariables.js";
+import { processScheduledDeletions } from "./src/services/accountDeletionService.js";
+import { processDataExports } from "./src/services/dataExportService.js";
+import { processPushReceipts } from "./src/services/pushService.js";
+import { processNotificationOutbox } from "./src/services/outboxService.js";
+import {
+  processNotificationDigests,
+  processWeeklyEmails,
+} from "./src/services/digestService.js";
 
 // Middleware
 import errorMiddleware from "./src/middlewares/error.js";
@@ -26,6 +36,9 @@ connectDb(MongoURL);
 
 const app = express();
 
+// Behind the hosting proxy: use X-Forwarded-For so req.ip is the client (rate limits)
+app.set("trust proxy", 1);
+
 // Middleware
 app.use(
   cors({
@@ -53,6 +66,8 @@ app.use("/api/v1/stats", statsRoutes); // Transaction statistics
 app.use("/api/v1/pools", poolRoutes); // Pool management
 app.use("/api/v1/expenses", expenseRoutes); // Daily expense tracker
 app.use("/api/v1/admin", adminRoutes); // Admin panel
+app.use("/api/v1/notifications", notificationRoutes); // In-app notification inbox
+app.use("/api/v1/files", fileRoutes); // Uploads kept by the local storage driver
 
 // Error handling middleware (must be last)
 app.use(errorMiddleware);
@@ -65,6 +80,44 @@ function ping() {
 
 setInterval(ping, 720000);
 
+// Purge accounts whose 14-day deletion grace period has ended (hourly)
+setInterval(() => {
+  processScheduledDeletions().catch((error) =>
+    console.error("Scheduled account deletion failed:", error),
+  );
+}, 60 * 60 * 1000);
+
+// Build exports left pending (e.g. after a restart) and delete expired archives
+setInterval(() => {
+  processDataExports().catch((error) =>
+    console.error("Data export sweep failed:", error),
+  );
+}, 15 * 60 * 1000);
+
+// Deliver queued pushes (retries with backoff; new entries are also sent immediately)
+setInterval(() => {
+  processNotificationOutbox().catch((error) =>
+    console.error("Notification outbox processing failed:", error),
+  );
+}, 15 * 1000);
+
+// Check Expo push receipts and prune tokens of uninstalled apps
+setInterval(() => {
+  processPushReceipts().catch((error) =>
+    console.error("Push receipt check failed:", error),
+  );
+}, 15 * 60 * 1000);
+
+// Send due notification digests and weekly summary emails
+setInterval(() => {
+  processNotificationDigests().catch((error) =>
+    console.error("Notification digest sweep failed:", error),
+  );
+  processWeeklyEmails().catch((error) =>
+    console.error("Weekly summary email sweep failed:", error),
+  );
+}, 15 * 60 * 1000);
+
 app.listen(3000, () => {
   console.log("Server is running on port 3000");
 });
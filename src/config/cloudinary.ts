@@ -1,4 +1,5 @@
 import { v2 as cloudinary } from "cloudinary";
+import { STORAGE_DRIVER } from "./envVariables.js";
 
 // Cloudinary environment variables
 export const CLOUDINARY_CLOUD_NAME = process.env.CLOUDINARY_CLOUD_NAME;
@@ -14,11 +15,18 @@ cloudinary.config({
   api_secret: CLOUDINARY_API_SECRET,
 });
 
-// Validate Cloudinary configuration
-if (!CLOUDINARY_CLOUD_NAME || !CLOUDINARY_API_KEY || !CLOUDINARY_API_SECRET) {
-  console.warn(
-    "⚠️  Cloudinary credentials not found. Image upload will not work. Please set CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY, and CLOUDINARY_API_SECRET in .env",
-  );
+// Validate Cloudinary configuration whenever it is the storage driver:
+// production refuses to start, elsewhere uploads fail until it is set
+if (
+  STORAGE_DRIVER === "cloudinary" &&
+  (!CLOUDINARY_CLOUD_NAME || !CLOUDINARY_API_KEY || !CLOUDINARY_API_SECRET)
+) {
+  const message =
+    "Cloudinary credentials not found. Please set CLOUDINARY_CLOUD_NAME, CLOUDINARY_API_KEY, and CLOUDINARY_API_SECRET in .env";
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(message);
+  }
+  console.warn(`⚠️  ${message}`);
 }
 
 export default cloudinary;
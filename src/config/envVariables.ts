@@ -4,7 +4,12 @@ dotenv.config({ path: "./.env" });
 
 console.log(process.env.ADMIN_SECRET_KEY);
 
+const IS_PRODUCTION = process.env.NODE_ENV === "production";
+
 const JWT_SECRET = process.env.JWT_SECRET || "your_jwt_secret_key";
+// Refresh tokens are signed with their own secret so one can never pass as the other
+const JWT_REFRESH_SECRET =
+  process.env.JWT_REFRESH_SECRET || "your_jwt_refresh_secret_key";
 const JWT_EXPIRES_IN: string | number | undefined =
   process.env.JWT_EXPIRES_IN || "7d";
 const COOKIE_EXPIRES_IN = process.env.COOKIE_EXPIRES_IN
@@ -14,12 +19,83 @@ const adminSecretKey = process.env.ADMIN_SECRET_KEY!;
 
 const MongoURL = process.env.MONGO_URL! || "mongodb://localhost:27017/finzz";
 const RESEND_API_KEY = process.env.RESEND_API || "";
+// SMS delivery: "twilio" (real messages), "console" (log only) or "file"
+// (append to SMS_LOG_FILE). Defaults to Twilio when it is configured
+const TWILIO_ACCOUNT_SID = process.env.TWILIO_ACCOUNT_SID || "";
+const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN || "";
+// Sender number, or a Messaging Service SID (MG...)
+const TWILIO_FROM = process.env.TWILIO_FROM || "";
+const SMS_DRIVER =
+  process.env.SMS_DRIVER || (TWILIO_ACCOUNT_SID ? "twilio" : "console");
+const SMS_LOG_FILE = process.env.SMS_LOG_FILE || "./sms.log";
+// Email delivery: "resend", "smtp" or "file" (.eml files in MAIL_DIR).
+// Defaults to Resend when an API key is set, otherwise to files. OTP and
+// reset emails must really go out in production, so files aren't allowed there
+const MAIL_DRIVER =
+  process.env.MAIL_DRIVER || (RESEND_API_KEY ? "resend" : "file");
+const MAIL_FROM = process.env.MAIL_FROM || "Finzz <noreply@aryantechie.in>";
+const MAIL_DIR = process.env.MAIL_DIR || "./mail";
+const SMTP_HOST = process.env.SMTP_HOST || "localhost";
+const SMTP_PORT = process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT) : 587;
+// true = TLS from the first byte (port 465); otherwise STARTTLS is required
+const SMTP_SECURE = process.env.SMTP_SECURE === "true";
+const SMTP_USER = process.env.SMTP_USER || "";
+const SMTP_PASS = process.env.SMTP_PASS || "";
+if (
+  IS_PRODUCTION &&
+  !(
+    (MAIL_DRIVER === "resend" && RESEND_API_KEY) ||
+    (MAIL_DRIVER === "smtp" && process.env.SMTP_HOST)
+  )
+) {
+  throw new Error(
+    `MAIL_DRIVER "${MAIL_DRIVER}" can't deliver email: use "resend" (with RESEND_API) or "smtp" (with SMTP_HOST) in production`,
+  );
+}
+// Uploads (avatars, pool images, attachments): "cloudinary" or "local" (UPLOAD_DIR).
+// Defaults to Cloudinary when any of its variables is set (missing ones are
+// then caught in config/cloudinary), otherwise to local disk
+const HAS_CLOUDINARY_CONFIG = Boolean(
+  process.env.CLOUDINARY_CLOUD_NAME ||
+    process.env.CLOUDINARY_API_KEY ||
+    process.env.CLOUDINARY_API_SECRET,
+);
+const STORAGE_DRIVER =
+  process.env.STORAGE_DRIVER || (HAS_CLOUDINARY_CONFIG ? "cloudinary" : "local");
+if (IS_PRODUCTION && !process.env.STORAGE_DRIVER && !HAS_CLOUDINARY_CONFIG) {
+  console.warn(
+    "⚠️  No Cloudinary credentials: uploads are stored on local disk. Make sure UPLOAD_DIR is persistent, or set STORAGE_DRIVER=local to silence this",
+  );
+}
+const UPLOAD_DIR = process.env.UPLOAD_DIR || "./uploads";
+// Public base URL of this server (links to locally stored files)
+const API_URL = process.env.API_URL || "http://localhost:3000";
+// Where generated "download my data" archives are kept until they expire
+const EXPORT_DIR = process.env.EXPORT_DIR || "./exports";
 
 export {
   JWT_SECRET,
+  JWT_REFRESH_SECRET,
   JWT_EXPIRES_IN,
   COOKIE_EXPIRES_IN,
   adminSecretKey,
   MongoURL,
   RESEND_API_KEY,
+  SMS_DRIVER,
+  SMS_LOG_FILE,
+  TWILIO_ACCOUNT_SID,
+  TWILIO_AUTH_TOKEN,
+  TWILIO_FROM,
+  MAIL_DRIVER,
+  MAIL_FROM,
+  MAIL_DIR,
+  SMTP_HOST,
+  SMTP_PORT,
+  SMTP_SECURE,
+  SMTP_USER,
+  SMTP_PASS,
+  STORAGE_DRIVER,
+  UPLOAD_DIR,
+  API_URL,
+  EXPORT_DIR,
 };
@@ -10,10 +10,22 @@ import { Tx } from "../models/txModel.js";
 import { Notification } from "../models/notificationModel.js";
 import ErrorHandler from "../middlewares/Errorhandler.js";
 import { JWT_SECRET, adminSecretKey } from "../config/envVariables.js";
-import { Expo, ExpoPushMessage } from "expo-server-sdk";
 import { PoolTx } from "../models/poolTxModel.js";
-
-const expo = new Expo();
+import {
+  getOpenGroupBalances,
+  purgeUserAccount,
+} from "../services/accountDeletionService.js";
+import { DeviceToken } from "../models/deviceTokenModel.js";
+import {
+  getPushTokens,
+  sendPushMessages,
+  PushMessage,
+} from "../services/pushService.js";
+import { NotificationOutbox } from "../models/notificationOutboxModel.js";
+import {
+  processNotificationOutbox,
+  retryDeadNotifications,
+} from "../services/outboxService.js";
 
 // ==========================================
 // Admin Login (secret key)
@@ -93,13 +105,13 @@ export const getDashboardStats = TryCatch(
       dailySignups,
     ] = await Promise.all([
       // Counts
-      User.countDocuments(),
+      User.countDocuments({ deletedAt: { $exists: false } }),
       Expense.countDocuments(),
       Pool.countDocuments(),
       Tx.countDocuments(),
 
       // Recent 10 users
-      User.find()
+      User.find({ deletedAt: { $exists: false } })
         .sort({ _id: -1 })
         .limit(10)
         .select("name phone avatar _id")
@@ -219,7 +231,7 @@ export const getAllUsers = TryCatch(
     const search = (req.query.search as string) || "";
     const sort = (req.query.sort as string) || "-_id";
 
-    const filter: any = {};
+    const filter: any = { deletedAt: { $exists: false } };
     if (search) {
       filter.$or = [
         { name: { $regex: search, $options: "i" } },
@@ -316,19 +328,17 @@ export const deleteUser = TryCatch(
       return next(new ErrorHandler("User not found", 404));
     }
 
-    // Delete related data
-    await Promise.all([
-      Expense.deleteMany({ userId: id }),
-      ExpenseLedger.deleteMany({ userId: id }),
-      Notification.deleteMany({
-        $or: [{ recipient: id }, { sender: id }],
-      }),
-      Tx.deleteMany({
-        $or: [{ addedBy: id }, { verifiedBy: id }],
-      }),
-    ]);
+    const openGroups = await getOpenGroupBalances(id);
+    if (openGroups.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "User still has an open balance in these groups",
+        groups: openGroups,
+      });
+    }
 
-    await User.findByIdAndDelete(id);
+    // Same cascade as self-service deletion, without the grace period
+    await purgeUserAccount(id);
 
     res.status(200).json({
       success: true,
@@ -507,25 +517,29 @@ export const sendBulkNotification = TryCatch(
       return next(new ErrorHandler("Title is required", 400));
     }
 
-    // Get all users with push tokens
-    const users = await User.find({
-      pushToken: { $exists: true, $ne: "" },
-    })
-      .select("_id pushToken")
-      .lean();
-
-    if (users.length === 0) {
+    // Get all users with at least one device token (or a legacy single token)
+    const [deviceUserIds, legacyUserIds] = await Promise.all([
+      DeviceToken.distinct("userId"),
+      User.distinct("_id", { pushToken: { $exists: true, $ne: "" } }),
+    ]);
+    const userIds = [
+      ...new Set(
+        [...deviceUserIds, ...legacyUserIds].map((id: any) => id.toString()),
+      ),
+    ];
+    const userTokens = await getPushTokens(userIds);
+
+    if (userTokens.size === 0) {
       return next(new ErrorHandler("No users with push tokens found", 404));
     }
 
-    // Build messages
-    const messages: ExpoPushMessage[] = [];
-    for (const user of users) {
-      const token = (user as any).pushToken;
-      if (token && Expo.isExpoPushToken(token)) {
+    // Build messages (one per device)
+    const messages: PushMessage[] = [];
+    for (const [userId, tokens] of userTokens) {
+      for (const token of tokens) {
         messages.push({
-          to: token,
-          sound: "default",
+          userId,
+          token,
           title,
           body,
           data: { type: "admin_broadcast" },
@@ -534,21 +548,12 @@ export const sendBulkNotification = TryCatch(
     }
 
     // Send in chunks
-    const chunks = expo.chunkPushNotifications(messages);
-    let sentCount = 0;
-    for (const chunk of chunks) {
-      try {
-        await expo.sendPushNotificationsAsync(chunk);
-        sentCount += chunk.length;
-      } catch (error) {
-        console.error("Error sending bulk notifications:", error);
-      }
-    }
+    const { accepted: sentCount } = await sendPushMessages(messages);
 
     res.status(200).json({
       success: true,
-      message: `Notification sent to ${sentCount} users`,
-      totalUsersWithTokens: users.length,
+      message: `Notification sent to ${sentCount} devices`,
+      totalUsersWithTokens: userTokens.size,
       sentCount,
     });
   },
@@ -569,15 +574,10 @@ export const sendTargetedNotification = TryCatch(
       return next(new ErrorHandler("Please select at least one user", 400));
     }
 
-    // Get selected users with push tokens
-    const users = await User.find({
-      _id: { $in: userIds },
-      pushToken: { $exists: true, $ne: "" },
-    })
-      .select("_id pushToken")
-      .lean();
+    // Get device tokens of the selected users
+    const userTokens = await getPushTokens(userIds.map(String));
 
-    if (users.length === 0) {
+    if (userTokens.size === 0) {
       return next(
         new ErrorHandler(
           "None of the selected users have valid push tokens",
@@ -586,14 +586,13 @@ export const sendTargetedNotification = TryCatch(
       );
     }
 
-    // Build messages
-    const messages: ExpoPushMessage[] = [];
-    for (const user of users) {
-      const token = (user as any).pushToken;
-      if (token && Expo.isExpoPushToken(token)) {
+    // Build messages (one per device)
+    const messages: PushMessage[] = [];
+    for (const [userId, tokens] of userTokens) {
+      for (const token of tokens) {
         messages.push({
-          to: token,
-          sound: "default",
+          userId,
+          token,
           title,
           body,
           data: { type: "admin_targeted" },
@@ -602,22 +601,54 @@ export const sendTargetedNotification = TryCatch(
     }
 
     // Send in chunks
-    const chunks = expo.chunkPushNotifications(messages);
-    let sentCount = 0;
-    for (const chunk of chunks) {
-      try {
-        await expo.sendPushNotificationsAsync(chunk);
-        sentCount += chunk.length;
-      } catch (error) {
-        console.error("Error sending targeted notifications:", error);
-      }
-    }
+    const { accepted: sentCount } = await sendPushMessages(messages);
 
     res.status(200).json({
       success: true,
-      message: `Notification sent to ${sentCount} out of ${userIds.length} selected users`,
+      message: `Notification sent to ${sentCount} devices of ${userIds.length} selected users`,
       totalSelectedUsers: userIds.length,
       sentCount,
     });
   },
 );
+
+// ==========================================
+// Notification Outbox (delivery health)
+// ==========================================
+export const getOutboxStats = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const [byStatus, recentDead] = await Promise.all([
+      NotificationOutbox.aggregate([
+        { $group: { _id: "$status", count: { $sum: 1 } } },
+      ]),
+      NotificationOutbox.find({ status: "dead" })
+        .sort({ updatedAt: -1 })
+        .limit(20)
+        .select("recipient title attempts lastError updatedAt")
+        .populate("recipient", "name phone")
+        .lean(),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      counts: Object.fromEntries(byStatus.map((s) => [s._id, s.count])),
+      recentDead,
+    });
+  },
+);
+
+// Requeue dead-lettered pushes (e.g. after an Expo outage)
+export const retryDeadOutbox = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const requeued = await retryDeadNotifications();
+    processNotificationOutbox().catch((error) =>
+      console.error("Notification outbox processing failed:", error),
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Requeued ${requeued} notifications`,
+      requeued,
+    });
+  },
+);
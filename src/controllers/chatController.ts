@@ -1,12 +1,51 @@
 import { Request, Response, NextFunction } from "express";
 import TryCatch from "../utils/TryCatch.js"; // default export
 import { Chat } from "../models/chatModel.js";
+import { Tx } from "../models/txModel.js";
+import { User } from "../models/userModel.js";
+import { MonthlySummary } from "../models/monthlySummaryModel.js";
 import ErrorHandler from "../middlewares/Errorhandler.js";
+import { notifyUsers } from "../services/notificationService.js";
+import { getUserPreferences } from "../services/preferenceService.js";
+import {
+  getChatBalances,
+  SETTLED_TOLERANCE,
+} from "../services/summaryService.js";
+import { deleteAttachmentsWhere } from "../services/attachmentService.js";
+import mongoose from "mongoose";
+
+// Chat list: filter / sort on the caller's running balance
+const CHAT_FILTERS = ["owes_me", "i_owe", "settled"];
+const CHAT_SORTS = ["recent", "owes_me", "i_owe"];
+
+// `balance`: positive = they owe you, negative = you owe them
+const getBalanceStatus = (balance: number) =>
+  balance >= SETTLED_TOLERANCE
+    ? "owes_me"
+    : balance <= -SETTLED_TOLERANCE
+      ? "i_owe"
+      : "settled";
 
 // Get all chats for the current user (WhatsApp-style home screen)
 export const getUserChats = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user.id;
+    const filter = req.query.filter as string | undefined;
+    const sort = (req.query.sort as string) || "recent";
+
+    if (filter !== undefined && !CHAT_FILTERS.includes(filter)) {
+      return next(
+        new ErrorHandler(
+          `filter must be one of: ${CHAT_FILTERS.join(", ")}`,
+          400,
+        ),
+      );
+    }
+    if (!CHAT_SORTS.includes(sort)) {
+      return next(
+        new ErrorHandler(`sort must be one of: ${CHAT_SORTS.join(", ")}`, 400),
+      );
+    }
 
     // Find all chats where user is a member
     const chats: any = await Chat.find({ members: userId })
@@ -14,13 +53,32 @@ export const getUserChats = TryCatch(
       .sort({ "lastTransaction.date": -1 }) // Latest transaction first (like WhatsApp)
       .lean();
 
-    // Filter out the current user from members for cleaner response
-    const formattedChats = chats.map((chat: any) => ({
-      ...chat,
-      members: chat.members.filter(
-        (member: any) => member._id.toString() !== userId,
-      ),
-    }));
+    // Filter out the current user from members for cleaner response, and
+    // keep only their own running balance (positive = they owe you)
+    let formattedChats = chats.map(({ balances, ...chat }: any) => {
+      const balance = Math.round((balances?.[userId] || 0) * 100) / 100;
+      return {
+        ...chat,
+        members: chat.members.filter(
+          (member: any) => member._id.toString() !== userId,
+        ),
+        balance: balance || 0, // no -0
+        balanceStatus: getBalanceStatus(balance),
+      };
+    });
+
+    if (filter) {
+      formattedChats = formattedChats.filter(
+        (chat: any) => chat.balanceStatus === filter,
+      );
+    }
+
+    // Stable sort: equal balances stay in latest-transaction order
+    if (sort === "owes_me") {
+      formattedChats.sort((a: any, b: any) => b.balance - a.balance);
+    } else if (sort === "i_owe") {
+      formattedChats.sort((a: any, b: any) => a.balance - b.balance);
+    }
 
     return res.status(200).json({
       success: true,
@@ -58,3 +116,280 @@ export const getChatById = TryCatch(
     });
   },
 );
+
+// ========================
+// Group Chats
+// ========================
+
+// Members can only leave / be removed once they owe and are owed nothing
+async function isSettledInChat(chatId: string, userId: string) {
+  const balances = await getChatBalances(chatId);
+  return Math.abs(balances[userId] || 0) < SETTLED_TOLERANCE;
+}
+
+// Ids from `userIds` that aren't friends of `userId`
+async function findNonFriends(userId: string, userIds: string[]) {
+  const user = await User.findById(userId)
+    .select("friends")
+    .lean<{ friends: mongoose.Types.ObjectId[] }>();
+  const friendIds = new Set((user?.friends || []).map((f) => f.toString()));
+  return userIds.filter((id) => !friendIds.has(id));
+}
+
+// Create a group chat with some of your friends (you become its creator)
+export const createGroupChat = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { name, members } = req.body;
+    const userId = req.user.id;
+
+    const memberIds: string[] = [
+      ...new Set<string>(members.filter((id: string) => id !== userId)),
+    ];
+    if (memberIds.length < 2) {
+      return next(
+        new ErrorHandler("A group needs at least 2 friends besides you", 400),
+      );
+    }
+
+    const nonFriends = await findNonFriends(userId, memberIds);
+    if (nonFriends.length > 0) {
+      return next(
+        new ErrorHandler("You can only add friends to a group chat", 400),
+      );
+    }
+
+    const creatorPrefs = await getUserPreferences(userId);
+    const chat = await Chat.create({
+      name,
+      groupChat: true,
+      creator: userId,
+      members: [userId, ...memberIds],
+      timezone: creatorPrefs.timezone, // month boundaries for this ledger
+    });
+
+    const creator = await User.findById(userId)
+      .select("name")
+      .lean<{ name: string }>();
+    await notifyUsers(
+      "group_member_added",
+      memberIds,
+      { senderName: creator?.name || "", chatName: chat.name },
+      { senderId: userId, chatId: chat._id.toString() },
+    );
+
+    return res.status(201).json({
+      success: true,
+      message: "Group chat created successfully",
+      chat,
+    });
+  },
+);
+
+// Rename a group chat (creator only)
+export const renameGroupChat = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { chatId } = req.params;
+    const { name } = req.body;
+    const userId = req.user.id;
+
+    const chat = await Chat.findById(chatId);
+
+    if (!chat || !chat.groupChat) {
+      return next(new ErrorHandler("Group chat not found", 404));
+    }
+
+    if (chat.creator?.toString() !== userId) {
+      return next(
+        new ErrorHandler("Only the group creator can rename the group", 403),
+      );
+    }
+
+    chat.name = name;
+    await chat.save();
+
+    return res.status(200).json({
+      success: true,
+      message: "Group chat renamed successfully",
+      chat,
+    });
+  },
+);
+
+// Add members to a group chat (creator only, must be their friends)
+export const addGroupMembers = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { chatId } = req.params;
+    const { userIds } = req.body;
+    const userId = req.user.id;
+
+    const chat = await Chat.findById(chatId);
+
+    if (!chat || !chat.groupChat) {
+      return next(new ErrorHandler("Group chat not found", 404));
+    }
+
+    if (chat.creator?.toString() !== userId) {
+      return next(
+        new ErrorHandler("Only the group creator can add members", 403),
+      );
+    }
+
+    const existing = chat.members.map((m: mongoose.Types.ObjectId) =>
+      m.toString(),
+    );
+    const newMemberIds = [...new Set<string>(userIds)].filter(
+      (id) => !existing.includes(id),
+    );
+    if (newMemberIds.length === 0) {
+      return next(new ErrorHandler("Users are already members", 400));
+    }
+
+    const nonFriends = await findNonFriends(userId, newMemberIds);
+    if (nonFriends.length > 0) {
+      return next(
+        new ErrorHandler("You can only add friends to a group chat", 400),
+      );
+    }
+
+    chat.members.push(
+      ...newMemberIds.map((id) => new mongoose.Types.ObjectId(id)),
+    );
+    await chat.save();
+
+    const creator = await User.findById(userId)
+      .select("name")
+      .lean<{ name: string }>();
+    await notifyUsers(
+      "group_member_added",
+      newMemberIds,
+      { senderName: creator?.name || "", chatName: chat.name || "" },
+      { senderId: userId, chatId },
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "Members added successfully",
+      chat,
+    });
+  },
+);
+
+// Remove a member from a group chat (creator only, member must be settled)
+export const removeGroupMember = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { chatId, userId: memberToRemove } = req.params;
+    const userId = req.user.id;
+
+    const chat = await Chat.findById(chatId);
+
+    if (!chat || !chat.groupChat) {
+      return next(new ErrorHandler("Group chat not found", 404));
+    }
+
+    if (chat.creator?.toString() !== userId) {
+      return next(
+        new ErrorHandler("Only the group creator can remove members", 403),
+      );
+    }
+
+    if (memberToRemove === userId) {
+      return next(
+        new ErrorHandler(
+          "Creator cannot remove themselves. Use leave group instead",
+          400,
+        ),
+      );
+    }
+
+    const isMember = chat.members.some(
+      (member: mongoose.Types.ObjectId) => member.toString() === memberToRemove,
+    );
+    if (!isMember) {
+      return next(new ErrorHandler("User is not a member of this group", 400));
+    }
+
+    if (!(await isSettledInChat(chatId, memberToRemove))) {
+      return next(
+        new ErrorHandler(
+          "Member still has an open balance in this group. Settle up first",
+          400,
+        ),
+      );
+    }
+
+    chat.members = chat.members.filter(
+      (member: mongoose.Types.ObjectId) => member.toString() !== memberToRemove,
+    );
+    await chat.save();
+
+    const creator = await User.findById(userId)
+      .select("name")
+      .lean<{ name: string }>();
+    await notifyUsers(
+      "group_member_removed",
+      [memberToRemove],
+      { senderName: creator?.name || "", chatName: chat.name || "" },
+      { senderId: userId, chatId },
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "Member removed successfully",
+      chat,
+    });
+  },
+);
+
+// Leave a group chat (balance must be settled)
+export const leaveGroupChat = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { chatId } = req.params;
+    const userId = req.user.id;
+
+    const chat = await Chat.findById(chatId);
+
+    if (!chat || !chat.groupChat) {
+      return next(new ErrorHandler("Group chat not found", 404));
+    }
+
+    const otherMembers = chat.members.filter(
+      (member: mongoose.Types.ObjectId) => member.toString() !== userId,
+    );
+    if (otherMembers.length === chat.members.length) {
+      return next(new ErrorHandler("You are not a member of this group", 400));
+    }
+
+    if (!(await isSettledInChat(chatId, userId))) {
+      return next(
+        new ErrorHandler(
+          "You still have an open balance in this group. Settle up first",
+          400,
+        ),
+      );
+    }
+
+    if (otherMembers.length === 0) {
+      // Last member, delete the group and its history
+      await deleteAttachmentsWhere(Tx, { chatId });
+      await Tx.deleteMany({ chatId });
+      await MonthlySummary.deleteMany({ chatId });
+      await Chat.findByIdAndDelete(chatId);
+
+      return res.status(200).json({
+        success: true,
+        message: "Group deleted (you were the last member)",
+      });
+    }
+
+    chat.members = otherMembers;
+    if (chat.creator?.toString() === userId) {
+      chat.creator = otherMembers[0]; // longest-standing member takes over
+    }
+    await chat.save();
+
+    return res.status(200).json({
+      success: true,
+      message: "You left the group",
+    });
+  },
+);
@@ -0,0 +1,98 @@
+import { Request, Response, NextFunction } from "express";
+import TryCatch from "../utils/TryCatch.js";
+import ErrorHandler from "../middlewares/Errorhandler.js";
+import { DataExport, IDataExport } from "../models/dataExportModel.js";
+import {
+  failStaleDataExports,
+  issueExportDownloadToken,
+  processDataExports,
+  verifyExportDownloadToken,
+} from "../services/dataExportService.js";
+
+const formatExport = (dataExport: IDataExport) => ({
+  _id: dataExport._id,
+  status: dataExport.status,
+  fileSize: dataExport.fileSize,
+  createdAt: dataExport.createdAt,
+  completedAt: dataExport.completedAt,
+  expiresAt: dataExport.expiresAt,
+  ...(dataExport.status === "ready" && {
+    downloadUrl: `/api/v1/users/me/export/download?token=${issueExportDownloadToken(dataExport)}`,
+  }),
+});
+
+// Request a full data export (ZIP, JSON + CSV) - built in the background
+export const requestDataExport = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+
+    // One export at a time: return the one already in progress (unless
+    // its build was lost)
+    await failStaleDataExports(userId);
+    const inProgress = await DataExport.findOne({
+      userId,
+      status: { $in: ["pending", "processing"] },
+    });
+    if (inProgress) {
+      return res.status(202).json({
+        success: true,
+        export: formatExport(inProgress),
+      });
+    }
+
+    const dataExport = await DataExport.create({ userId });
+
+    // Fire and forget - the periodic sweep retries anything left pending
+    processDataExports().catch((error) =>
+      console.error("Data export processing failed:", error),
+    );
+
+    res.status(202).json({
+      success: true,
+      message: "Export started. Check its status to get the download link",
+      export: formatExport(dataExport),
+    });
+  },
+);
+
+// Status of one export (download link included once ready)
+export const getDataExport = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { exportId } = req.params;
+
+    const dataExport = await DataExport.findOne({ _id: exportId, userId });
+    if (!dataExport) {
+      return next(new ErrorHandler("Export not found", 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      export: formatExport(dataExport),
+    });
+  },
+);
+
+// Download the archive - authorised by the signed link, so it opens in a browser
+export const downloadDataExport = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const token = req.query.token as string;
+
+    const exportId = token ? verifyExportDownloadToken(token) : null;
+    if (!exportId) {
+      return next(new ErrorHandler("Download link is invalid or expired", 401));
+    }
+
+    const dataExport = await DataExport.findById(exportId);
+    if (
+      !dataExport ||
+      dataExport.status !== "ready" ||
+      !dataExport.filePath ||
+      (dataExport.expiresAt && dataExport.expiresAt <= new Date())
+    ) {
+      return next(new ErrorHandler("Export not found or expired", 404));
+    }
+
+    res.download(dataExport.filePath, "finzz-data-export.zip");
+  },
+);
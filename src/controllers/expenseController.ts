@@ -1,17 +1,35 @@
 import { NextFunction, Request, Response } from "express";
 import mongoose from "mongoose";
 import TryCatch from "../utils/TryCatch.js";
-import { Expense } from "../models/expenseModel.js";
+import { Expense, IExpense } from "../models/expenseModel.js";
 import { ExpenseLedger } from "../models/expenseLedgerModel.js";
 import { User } from "../models/userModel.js";
+import { IAttachment, MAX_ATTACHMENTS } from "../models/attachmentSchema.js";
 import ErrorHandler from "../middlewares/Errorhandler.js";
+import {
+  getUserPreferences,
+  resolvePreferences,
+} from "../services/preferenceService.js";
+import {
+  deleteAttachmentFiles,
+  storeAttachment,
+  withSignedUrls,
+} from "../services/attachmentService.js";
+import { formatAmount, formatDate } from "../utils/format.js";
+import {
+  addMonths,
+  daysInMonth as getDaysInMonth,
+  getDayRange,
+  getMonthRange,
+  getYearMonth,
+} from "../utils/period.js";
 
 // ==========================================
-// Helper: Get or create current month's ledger
+// Helper: Get or create the ledger for the month `date` falls in
+// (in the user's timezone)
 // ==========================================
-async function getOrCreateLedger(userId: string, date: Date) {
-  const year = date.getFullYear();
-  const month = date.getMonth() + 1; // 1-12
+async function getOrCreateLedger(userId: string, date: Date, timezone: string) {
+  const { year, month } = getYearMonth(date, timezone); // month 1-12
 
   let ledger = await ExpenseLedger.findOne({ userId, year, month });
 
@@ -44,7 +62,8 @@ export const addExpense = TryCatch(
     const expenseDate = new Date(date);
 
     // Get or create the ledger for this month
-    const ledger = await getOrCreateLedger(userId, expenseDate);
+    const { timezone } = await getUserPreferences(userId);
+    const ledger = await getOrCreateLedger(userId, expenseDate, timezone);
 
     // Check if ledger is closed
     if (ledger.status === "closed") {
@@ -152,6 +171,22 @@ export const editExpense = TryCatch(
       );
     }
 
+    // A new date in another month moves the expense to that month's ledger
+    let targetLedger = ledger;
+    if (date !== undefined) {
+      const { timezone } = await getUserPreferences(userId);
+      const { year, month } = getYearMonth(new Date(date), timezone);
+      if (year !== ledger.year || month !== ledger.month) {
+        targetLedger = await getOrCreateLedger(userId, new Date(date), timezone);
+        if (targetLedger.status === "closed") {
+          return next(
+            new ErrorHandler("Cannot move expenses into a closed ledger", 400),
+          );
+        }
+      }
+    }
+    const ledgerChanged = !targetLedger._id.equals(ledger._id);
+
     const oldAmount = expense.amount;
     const oldType = expense.type || "debit";
 
@@ -161,14 +196,15 @@ export const editExpense = TryCatch(
     if (remarks !== undefined) expense.remarks = remarks;
     if (category !== undefined) expense.category = category;
     if (type !== undefined) expense.type = type;
+    if (ledgerChanged) expense.ledgerId = targetLedger._id;
 
     await expense.save();
 
     const newAmount = expense.amount;
     const newType = expense.type || "debit";
 
-    // Update ledger totals if amount or type changed
-    if (amount !== undefined || type !== undefined) {
+    // Update ledger totals if amount, type or ledger changed
+    if (amount !== undefined || type !== undefined || ledgerChanged) {
       // Reverse old entry
       if (oldType === "credit") {
         ledger.totalCredits -= oldAmount;
@@ -177,11 +213,12 @@ export const editExpense = TryCatch(
       }
       // Apply new entry
       if (newType === "credit") {
-        ledger.totalCredits += newAmount;
+        targetLedger.totalCredits += newAmount;
       } else {
-        ledger.totalExpenses += newAmount;
+        targetLedger.totalExpenses += newAmount;
       }
       await ledger.save();
+      if (ledgerChanged) await targetLedger.save();
     }
 
     return res.status(200).json({
@@ -235,6 +272,7 @@ export const deleteExpense = TryCatch(
 
     // Delete the expense
     await expense.deleteOne();
+    await deleteAttachmentFiles(expense.attachments);
 
     return res.status(200).json({
       success: true,
@@ -243,6 +281,142 @@ export const deleteExpense = TryCatch(
   },
 );
 
+// ==========================================
+// Helper: Attachments follow the edit rules
+// (owner only, ledger still open)
+// ==========================================
+async function checkExpenseEditable(
+  expense: IExpense,
+  userId: string,
+): Promise<ErrorHandler | null> {
+  if (expense.userId.toString() !== userId) {
+    return new ErrorHandler("You can only edit your own expenses", 403);
+  }
+
+  const ledger = await ExpenseLedger.findById(expense.ledgerId)
+    .select("status")
+    .lean<{ status: string }>();
+  if (!ledger) {
+    return new ErrorHandler("Ledger not found", 404);
+  }
+  if (ledger.status === "closed") {
+    return new ErrorHandler("Cannot edit expenses in a closed ledger", 400);
+  }
+  return null;
+}
+
+// ==========================================
+// Get Expense Attachments (signed URLs)
+// ==========================================
+export const getExpenseAttachments = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const userId = req.user.id;
+
+    const expense = await Expense.findById(id)
+      .select("userId attachments")
+      .lean<{
+        userId: mongoose.Types.ObjectId;
+        attachments: IAttachment[];
+      }>();
+
+    if (!expense || expense.userId.toString() !== userId) {
+      return next(new ErrorHandler("Expense not found", 404));
+    }
+
+    return res.status(200).json({
+      success: true,
+      attachments: withSignedUrls(expense.attachments),
+    });
+  },
+);
+
+// ==========================================
+// Add Expense Attachment (receipt / document)
+// ==========================================
+export const addExpenseAttachment = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const userId = req.user.id;
+
+    if (!req.file) {
+      return next(new ErrorHandler("Please upload a file", 400));
+    }
+
+    const expense = await Expense.findById(id);
+
+    if (!expense) {
+      return next(new ErrorHandler("Expense not found", 404));
+    }
+
+    const denied = await checkExpenseEditable(expense, userId);
+    if (denied) return next(denied);
+
+    if (expense.attachments.length >= MAX_ATTACHMENTS) {
+      return next(
+        new ErrorHandler(
+          `An expense can have at most ${MAX_ATTACHMENTS} attachments`,
+          400,
+        ),
+      );
+    }
+
+    try {
+      const attachment = await storeAttachment(req.file, userId);
+      expense.attachments.push(attachment);
+      await expense.save();
+    } catch (error: any) {
+      return next(
+        new ErrorHandler(`Failed to upload attachment: ${error.message}`, 500),
+      );
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: "Attachment added successfully",
+      attachments: withSignedUrls(expense.attachments),
+    });
+  },
+);
+
+// ==========================================
+// Delete Expense Attachment
+// ==========================================
+export const deleteExpenseAttachment = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id, attachmentId } = req.params;
+    const userId = req.user.id;
+
+    const expense = await Expense.findById(id);
+
+    if (!expense) {
+      return next(new ErrorHandler("Expense not found", 404));
+    }
+
+    const denied = await checkExpenseEditable(expense, userId);
+    if (denied) return next(denied);
+
+    const attachment = expense.attachments.find(
+      (a: IAttachment) => a._id.toString() === attachmentId,
+    );
+    if (!attachment) {
+      return next(new ErrorHandler("Attachment not found", 404));
+    }
+
+    expense.attachments = expense.attachments.filter(
+      (a: IAttachment) => a !== attachment,
+    );
+    await expense.save();
+    await deleteAttachmentFiles([attachment]);
+
+    return res.status(200).json({
+      success: true,
+      message: "Attachment deleted successfully",
+      attachments: withSignedUrls(expense.attachments),
+    });
+  },
+);
+
 // ==========================================
 // Get Stats
 // ==========================================
@@ -253,13 +427,13 @@ export const getStats = TryCatch(
 
     // Convert userId string to ObjectId for aggregation
     const userObjectId = new mongoose.Types.ObjectId(userId);
+    const { timezone } = await getUserPreferences(userId);
 
     let stats: any = {};
 
     if (period === "daily") {
       // Group by day for last 30 days
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+      const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
 
       const dailyStats = await Expense.aggregate([
         {
@@ -271,7 +445,7 @@ export const getStats = TryCatch(
         {
           $group: {
             _id: {
-              $dateToString: { format: "%Y-%m-%d", date: "$date" },
+              $dateToString: { format: "%Y-%m-%d", date: "$date", timezone },
             },
             total: { $sum: "$amount" },
             count: { $sum: 1 },
@@ -294,8 +468,8 @@ export const getStats = TryCatch(
         {
           $group: {
             _id: {
-              year: { $year: "$date" },
-              month: { $month: "$date" },
+              year: { $year: { date: "$date", timezone } },
+              month: { $month: { date: "$date", timezone } },
             },
             total: { $sum: "$amount" },
             count: { $sum: 1 },
@@ -317,7 +491,7 @@ export const getStats = TryCatch(
         { $match: { userId: userObjectId } },
         {
           $group: {
-            _id: { $year: "$date" },
+            _id: { $year: { date: "$date", timezone } },
             total: { $sum: "$amount" },
             count: { $sum: 1 },
           },
@@ -355,29 +529,40 @@ export const getAdvancedStats = TryCatch(
     const userId = req.user.id;
     const userObjectId = new mongoose.Types.ObjectId(userId);
 
-    // Parse requested month/year (defaults to current month)
-    const now = new Date();
+    // Parse requested month/year (defaults to current month, in the user's timezone)
+    const { timezone } = await getUserPreferences(userId);
+    const current = getYearMonth(new Date(), timezone);
     const year = parseInt(
-      (req.query.year as string) || String(now.getFullYear()),
+      (req.query.year as string) || String(current.year),
     );
     const month = parseInt(
-      (req.query.month as string) || String(now.getMonth() + 1),
+      (req.query.month as string) || String(current.month),
+    );
+    const { start: startOfMonth, end: endOfMonth } = getMonthRange(
+      year,
+      month,
+      timezone,
     );
 
     // ── 1. Monthly Trend (last 12 months including requested month) ──
-    const twelveMonthsAgo = new Date(year, month - 13, 1); // 12 months before requested
+    const trendStart = addMonths(year, month, -12); // 12 months before requested
+    const twelveMonthsAgo = getMonthRange(
+      trendStart.year,
+      trendStart.month,
+      timezone,
+    ).start;
     const monthlyTrend = await Expense.aggregate([
       {
         $match: {
           userId: userObjectId,
-          date: { $gte: twelveMonthsAgo, $lt: new Date(year, month, 1) },
+          date: { $gte: twelveMonthsAgo, $lt: endOfMonth },
         },
       },
       {
         $group: {
           _id: {
-            year: { $year: "$date" },
-            month: { $month: "$date" },
+            year: { $year: { date: "$date", timezone } },
+            month: { $month: { date: "$date", timezone } },
           },
           total: { $sum: "$amount" },
           count: { $sum: 1 },
@@ -387,8 +572,6 @@ export const getAdvancedStats = TryCatch(
     ]);
 
     // ── 2. Daily Breakdown for selected month ──
-    const startOfMonth = new Date(year, month - 1, 1);
-    const endOfMonth = new Date(year, month, 1);
 
     const dailyBreakdown = await Expense.aggregate([
       {
@@ -399,7 +582,9 @@ export const getAdvancedStats = TryCatch(
       },
       {
         $group: {
-          _id: { $dateToString: { format: "%Y-%m-%d", date: "$date" } },
+          _id: {
+            $dateToString: { format: "%Y-%m-%d", date: "$date", timezone },
+          },
           total: { $sum: "$amount" },
           count: { $sum: 1 },
         },
@@ -458,7 +643,7 @@ export const getAdvancedStats = TryCatch(
       }));
 
     // ── 5. Summary for selected month ──
-    const daysInMonth = new Date(year, month, 0).getDate();
+    const daysInMonth = getDaysInMonth(year, month);
     const activeDays = dailyBreakdown.length;
     const avgDailySpend = activeDays > 0 ? monthTotal / daysInMonth : 0;
 
@@ -499,20 +684,22 @@ export const getLedgers = TryCatch(async (req: Request, res: Response) => {
   const { year, month } = req.query;
 
   // Proactively get or create the ledger for the requested/current month
+  const { timezone } = await getUserPreferences(userId);
   let targetYear: number, targetMonth: number;
 
   if (year && month) {
     targetYear = parseInt(year as string);
     targetMonth = parseInt(month as string);
   } else {
-    const now = new Date();
-    targetYear = now.getFullYear();
-    targetMonth = now.getMonth() + 1;
+    ({ year: targetYear, month: targetMonth } = getYearMonth(
+      new Date(),
+      timezone,
+    ));
   }
 
-  // Use a pseudo-date to pass to the existing helper, or just recreate the logic
-  const pseudoDate = new Date(targetYear, targetMonth - 1, 1);
-  await getOrCreateLedger(userId, pseudoDate);
+  // Any instant inside the target month works for the helper
+  const { start } = getMonthRange(targetYear, targetMonth, timezone);
+  await getOrCreateLedger(userId, start, timezone);
 
   const ledgers = await ExpenseLedger.find({ userId })
     .sort({ year: -1, month: -1 })
@@ -536,10 +723,12 @@ export const closeLedger = TryCatch(
       return next(new ErrorHandler("Year and month are required", 400));
     }
 
-    // Check if month is in the past
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth() + 1;
+    // Check if month is in the past (in the user's timezone)
+    const { timezone } = await getUserPreferences(userId);
+    const { year: currentYear, month: currentMonth } = getYearMonth(
+      new Date(),
+      timezone,
+    );
 
     if (year > currentYear || (year === currentYear && month >= currentMonth)) {
       return next(
@@ -581,18 +770,17 @@ export const checkDuplicate = TryCatch(
       return next(new ErrorHandler("Amount and date are required", 400));
     }
 
-    const expenseDate = new Date(date as string);
-    // Start of day
-    const startOfDay = new Date(expenseDate);
-    startOfDay.setHours(0, 0, 0, 0);
-    // End of day
-    const endOfDay = new Date(expenseDate);
-    endOfDay.setHours(23, 59, 59, 999);
+    // Same calendar day in the user's timezone
+    const { timezone } = await getUserPreferences(userId);
+    const { start: startOfDay, end: endOfDay } = getDayRange(
+      new Date(date as string),
+      timezone,
+    );
 
     const duplicates = await Expense.find({
       userId,
       amount: Number(amount),
-      date: { $gte: startOfDay, $lte: endOfDay },
+      date: { $gte: startOfDay, $lt: endOfDay },
     }).select("amount date remarks category");
 
     return res.status(200).json({
@@ -629,7 +817,7 @@ export const exportPDF = TryCatch(
 
     // Get user details from DB
     const userDoc = await User.findById(userId)
-      .select("name mobile email")
+      .select("name mobile email preferences")
       .lean();
 
     if (!userDoc) {
@@ -641,11 +829,12 @@ export const exportPDF = TryCatch(
       mobile: (userDoc as any).mobile || "",
       email: (userDoc as any).email || "",
     };
+    const prefs = resolvePreferences((userDoc as any).preferences);
 
     // Build HTML string
     const html = `
       <!DOCTYPE html>
-      <html>
+      <html lang="${prefs.locale}">
       <head>
         <meta charset="utf-8">
         <title>Expense Report - ${ledger.year}-${String(ledger.month).padStart(2, "0")}</title>
@@ -786,7 +975,7 @@ export const exportPDF = TryCatch(
             </div>
             <div class="info-item">
               <strong>Generated</strong>
-              <div>${new Date().toLocaleDateString()}</div>
+              <div>${formatDate(new Date(), prefs)}</div>
             </div>
           </div>
           
@@ -796,7 +985,7 @@ export const exportPDF = TryCatch(
                 <th style="width: 15%;">Date</th>
                 <th style="width: 40%;">Remarks</th>
                 <th style="width: 20%;">Category</th>
-                <th style="width: 25%; text-align: right;">Amount (₹)</th>
+                <th style="width: 25%; text-align: right;">Amount (${prefs.currency})</th>
               </tr>
             </thead>
             <tbody>
@@ -804,17 +993,17 @@ export const exportPDF = TryCatch(
                 .map(
                   (exp) => `
               <tr>
-                <td>${new Date(exp.date).toLocaleDateString()}</td>
+                <td>${formatDate(exp.date, prefs)}</td>
                 <td>${exp.remarks || "-"}</td>
                 <td>${exp.category || "-"}</td>
-                <td class="amount-cell">₹${exp.amount.toFixed(2)}</td>
+                <td class="amount-cell">${formatAmount(exp.amount, prefs)}</td>
               </tr>
             `,
                 )
                 .join("")}
               <tr class="total-row">
                 <td colspan="3" style="text-align: right; padding-right: 20px;">TOTAL</td>
-                <td class="amount-cell">₹${ledger.totalExpenses.toFixed(2)}</td>
+                <td class="amount-cell">${formatAmount(ledger.totalExpenses, prefs)}</td>
               </tr>
             </tbody>
           </table>
@@ -0,0 +1,27 @@
+import { NextFunction, Request, Response } from "express";
+import TryCatch from "../utils/TryCatch.js";
+import ErrorHandler from "../middlewares/Errorhandler.js";
+import { resolveLocalFile } from "../services/storageService.js";
+
+// `/*key` wildcard: one entry per path segment
+interface FileParams {
+  key: string[];
+}
+
+// Serve a file kept by the local storage driver (private files need ?token=)
+export const serveFile = TryCatch(
+  async (req: Request<FileParams>, res: Response, next: NextFunction) => {
+    const key = req.params.key.join("/");
+
+    const filePath = resolveLocalFile(key, req.query.token as string);
+    if (!filePath) {
+      return next(new ErrorHandler("File not found", 404));
+    }
+
+    res.sendFile(filePath, (error) => {
+      if (error && !res.headersSent) {
+        next(new ErrorHandler("File not found", 404));
+      }
+    });
+  },
+);
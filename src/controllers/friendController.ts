@@ -4,7 +4,8 @@ import { User } from "../models/userModel.js";
 import { FriendRequest } from "../models/friendRequestModel.js";
 import { Chat } from "../models/chatModel.js";
 import ErrorHandler from "../middlewares/Errorhandler.js";
-import { sendPushNotification } from "../services/notificationService.js";
+import { notifyUsers } from "../services/notificationService.js";
+import { getUserPreferences } from "../services/preferenceService.js";
 import mongoose from "mongoose";
 
 // Search for a user by phone number
@@ -120,14 +121,11 @@ export const sendFriendRequest = TryCatch(
     const senderName = await User.findById(fromUserId)
       .select("name")
       .lean<{ name: string }>();
-    await sendPushNotification(
-      toUserId,
-      "Friend Request",
-      `${senderName?.name} wants to be your friend`,
-      {
-        type: "friend_request",
-        senderId: fromUserId,
-      },
+    await notifyUsers(
+      "friend_request",
+      [toUserId],
+      { senderName: senderName?.name || "" },
+      { senderId: fromUserId },
     );
 
     return res.status(201).json({
@@ -205,9 +203,11 @@ export const acceptFriendRequest = TryCatch(
     await User.updateOne({ _id: toUser }, { $addToSet: { friends: fromUser } });
 
     // 3. Auto-create Chat (1-to-1 "conversation" for transactions)
+    const accepterPrefs = await getUserPreferences(userId);
     const chat = await Chat.create({
       groupChat: false,
       members: [fromUser, toUser],
+      timezone: accepterPrefs.timezone, // month boundaries for this ledger
     });
     const chatId = chat._id.toString();
 
@@ -215,15 +215,11 @@ export const acceptFriendRequest = TryCatch(
     const accepterName = await User.findById(userId)
       .select("name")
       .lean<{ name: string }>();
-    await sendPushNotification(
-      fromUser,
-      "Friend Request Accepted",
-      `${accepterName?.name} accepted your friend request`,
-      {
-        type: "friend_accepted",
-        senderId: userId,
-        chatId,
-      },
+    await notifyUsers(
+      "friend_accepted",
+      [fromUser.toString()],
+      { senderName: accepterName?.name || "" },
+      { senderId: userId, chatId },
     );
 
     return res.status(200).json({
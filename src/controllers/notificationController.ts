@@ -0,0 +1,304 @@
+import { NextFunction, Request, Response } from "express";
+import TryCatch from "../utils/TryCatch.js";
+import { Notification } from "../models/notificationModel.js";
+import { User } from "../models/userModel.js";
+import { Chat } from "../models/chatModel.js";
+import { Pool } from "../models/poolModel.js";
+import ErrorHandler from "../middlewares/Errorhandler.js";
+import { resolveNotificationSettings } from "../services/notificationSettingsService.js";
+import mongoose from "mongoose";
+
+/**
+ * Page cursor: `<createdAt ISO>_<_id>`, so notifications sharing a timestamp
+ * aren't skipped. A bare ISO date (older clients) pages on createdAt alone.
+ * Returns null when the cursor is malformed.
+ */
+function parseCursor(
+  cursor: string,
+): { createdAt: Date; id?: mongoose.Types.ObjectId } | null {
+  const [datePart, idPart] = cursor.split("_");
+  const createdAt = new Date(datePart);
+  if (Number.isNaN(createdAt.getTime())) return null;
+
+  if (idPart === undefined) return { createdAt };
+  if (!mongoose.Types.ObjectId.isValid(idPart)) return null;
+  return { createdAt, id: new mongoose.Types.ObjectId(idPart) };
+}
+
+// Get notifications for the current user with cursor-based pagination
+export const getNotifications = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const cursor = req.query.cursor as string | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+    const unreadOnly = req.query.unread === "true";
+
+    // Build query
+    const query: any = { recipient: userId };
+
+    if (unreadOnly) {
+      query.read = false;
+    }
+
+    if (cursor) {
+      const parsed = parseCursor(cursor);
+      if (!parsed) {
+        return next(new ErrorHandler("Invalid cursor", 400));
+      }
+      query.$or = parsed.id
+        ? [
+            { createdAt: { $lt: parsed.createdAt } },
+            { createdAt: parsed.createdAt, _id: { $lt: parsed.id } },
+          ]
+        : [{ createdAt: { $lt: parsed.createdAt } }];
+    }
+
+    // Fetch limit + 1 to check if there are more pages
+    const notifications = await Notification.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate("sender", "name avatar")
+      .lean();
+
+    const hasMore = notifications.length > limit;
+    if (hasMore) notifications.pop(); // Remove extra item
+
+    const last = notifications[notifications.length - 1];
+    const nextCursor =
+      hasMore && last
+        ? `${last.createdAt.toISOString()}_${String(last._id)}`
+        : null;
+
+    return res.status(200).json({
+      success: true,
+      notifications,
+      nextCursor,
+      hasMore,
+    });
+  },
+);
+
+// Get unread notification count (badge on the bell icon)
+export const getUnreadCount = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+
+    const count = await Notification.countDocuments({
+      recipient: userId,
+      read: false,
+    });
+
+    return res.status(200).json({
+      success: true,
+      count,
+    });
+  },
+);
+
+// Mark a single notification as read
+export const markAsRead = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const userId = req.user.id;
+
+    const notification = await Notification.findOneAndUpdate(
+      { _id: id, recipient: userId },
+      { read: true },
+      { new: true },
+    );
+
+    if (!notification) {
+      return next(new ErrorHandler("Notification not found", 404));
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Notification marked as read",
+      notification,
+    });
+  },
+);
+
+// Mark all notifications as read
+export const markAllAsRead = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+
+    const result = await Notification.updateMany(
+      { recipient: userId, read: false },
+      { read: true },
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: "All notifications marked as read",
+      updated: result.modifiedCount,
+    });
+  },
+);
+
+// Delete a notification
+export const deleteNotification = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id } = req.params;
+    const userId = req.user.id;
+
+    const notification = await Notification.findOneAndDelete({
+      _id: id,
+      recipient: userId,
+    });
+
+    if (!notification) {
+      return next(new ErrorHandler("Notification not found", 404));
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Notification deleted successfully",
+    });
+  },
+);
+
+// Get notification settings (per-type delivery, mutes, quiet hours)
+export const getNotificationSettings = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const user = await User.findById(userId)
+      .select("notificationSettings")
+      .lean<any>();
+
+    if (!user) {
+      return next(new ErrorHandler("User not found", 404));
+    }
+
+    return res.status(200).json({
+      success: true,
+      settings: resolveNotificationSettings(user.notificationSettings),
+    });
+  },
+);
+
+// Update notification settings - only the fields sent change
+export const updateNotificationSettings = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+
+    // The weekly summary goes to the verified email only
+    if (req.body.weeklyEmail?.enabled) {
+      const account = await User.findById(userId)
+        .select("email emailVerified")
+        .lean<any>();
+      if (!account?.email || !account.emailVerified) {
+        return next(
+          new ErrorHandler(
+            "Verify your email before enabling the weekly summary",
+            400,
+          ),
+        );
+      }
+    }
+
+    const updateData: Record<string, unknown> = {};
+    for (const section of ["types", "quietHours", "digest", "weeklyEmail"]) {
+      for (const [key, value] of Object.entries(req.body[section] || {})) {
+        if (value !== undefined) {
+          updateData[`notificationSettings.${section}.${key}`] = value;
+        }
+      }
+    }
+
+    const user = await User.findByIdAndUpdate(userId, updateData, {
+      new: true,
+      runValidators: true,
+    })
+      .select("notificationSettings")
+      .lean<any>();
+
+    if (!user) {
+      return next(new ErrorHandler("User not found", 404));
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Notification settings updated successfully",
+      settings: resolveNotificationSettings(user.notificationSettings),
+    });
+  },
+);
+
+// Mute a chat or pool (until a date, or until unmuted)
+export const muteTarget = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { targetType, targetId, until } = req.body;
+
+    const Model: any = targetType === "chat" ? Chat : Pool;
+    const isMember = await Model.exists({ _id: targetId, members: userId });
+    if (!isMember) {
+      return next(
+        new ErrorHandler(
+          targetType === "chat" ? "Chat not found" : "Pool not found",
+          404,
+        ),
+      );
+    }
+
+    const untilDate = until ? new Date(until) : undefined;
+    if (untilDate && untilDate <= new Date()) {
+      return next(new ErrorHandler("Mute end must be in the future", 400));
+    }
+
+    // Replace any existing mute for the same target
+    await User.updateOne(
+      { _id: userId },
+      { $pull: { "notificationSettings.mutes": { targetId } } },
+    );
+    const user = await User.findByIdAndUpdate(
+      userId,
+      {
+        $push: {
+          "notificationSettings.mutes": {
+            targetType,
+            targetId,
+            ...(untilDate && { until: untilDate }),
+          },
+        },
+      },
+      { new: true },
+    )
+      .select("notificationSettings")
+      .lean<any>();
+
+    return res.status(200).json({
+      success: true,
+      message: targetType === "chat" ? "Chat muted" : "Pool muted",
+      settings: resolveNotificationSettings(user?.notificationSettings),
+    });
+  },
+);
+
+// Unmute a chat or pool
+export const unmuteTarget = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { targetId } = req.params;
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $pull: { "notificationSettings.mutes": { targetId } } },
+      { new: true },
+    )
+      .select("notificationSettings")
+      .lean<any>();
+
+    if (!user) {
+      return next(new ErrorHandler("User not found", 404));
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Unmuted successfully",
+      settings: resolveNotificationSettings(user.notificationSettings),
+    });
+  },
+);
@@ -1,62 +1,30 @@
 import { Request, Response, NextFunction } from "express";
-import { hash } from "bcrypt";
 import TryCatch from "../utils/TryCatch.js";
 import { User } from "../models/userModel.js";
 import Errorhandler from "../middlewares/Errorhandler.js";
 import { sendOTPEmail } from "../services/emailService.js";
+import { sendOTPSms, smsDelivers } from "../services/smsService.js";
+import {
+  issueOtpChallenge,
+  verifyOtpChallenge,
+  consumeVerifiedChallenge,
+  hasVerifiedChallenge,
+  deleteOtpChallenge,
+} from "../services/otpService.js";
+import { sendTwoFactorChallenge } from "../services/twoFactorService.js";
 import sendToken from "../utils/sendtoken.js";
 
-// Helper: generate a 6-digit OTP
-const generateOTP = (): string =>
-  Math.floor(100000 + Math.random() * 900000).toString();
-
-// Helper: 10 minutes from now
-const otpExpiry = () => new Date(Date.now() + 10 * 60 * 1000);
-
 // ─────────────────────────────────────────────
 // POST /api/v1/users/send-otp
 // Body: { email }
-// Public – sends an OTP to the given email.
-// Used for: registration, forgot-password, and existing-user email linking.
+// Public – sends a registration OTP to the given email.
 // ─────────────────────────────────────────────
 export const sendOtp = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
     const { email } = req.body as { email: string };
 
-    const otp = generateOTP();
-    const hashedOtp = await hash(otp, 10);
-
-    // Try to find an existing user by email (could be empty if new registration)
-    let user = await User.findOne({ email: email.toLowerCase().trim() });
-
-    if (user) {
-      // Update OTP fields on existing user
-      user.otp = hashedOtp;
-      user.otpExpiry = otpExpiry();
-      await user.save({ validateBeforeSave: false });
-    } else {
-      // Store OTP temporarily using a placeholder phone (will be replaced on register)
-      // Actually, we store the OTP in a pending user record keyed by email only
-      // For new registrations, we create a temporary user with minimal data
-      // We use a sentinel phone to hold the OTP – replaced on actual register
-      const tempPhone = `pending_${email.replace(/[^a-z0-9]/gi, "_")}_otp`;
-      const existing = await User.findOne({ phone: tempPhone });
-      if (existing) {
-        existing.otp = hashedOtp;
-        existing.otpExpiry = otpExpiry();
-        await existing.save({ validateBeforeSave: false });
-      } else {
-        await User.create({
-          name: "__pending__",
-          phone: tempPhone,
-          password: hashedOtp, // placeholder, will be replaced or deleted
-          email: email.toLowerCase().trim(),
-          emailVerified: false,
-          otp: hashedOtp,
-          otpExpiry: otpExpiry(),
-        });
-      }
-    }
+    // The challenge holds the OTP until register — no placeholder user needed
+    const otp = await issueOtpChallenge("register", email);
 
     await sendOTPEmail(email, otp, "verification");
 
@@ -76,28 +44,8 @@ export const verifyOtp = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
     const { email, otp } = req.body as { email: string; otp: string };
 
-    const user = await User.findOne({ email: email.toLowerCase().trim() });
-    if (!user || !user.otp || !user.otpExpiry) {
-      return next(
-        new Errorhandler("OTP not found. Please request a new OTP.", 400),
-      );
-    }
-
-    if (user.otpExpiry < new Date()) {
-      return next(
-        new Errorhandler("OTP has expired. Please request a new one.", 400),
-      );
-    }
-
-    const isValid = await user.compareOtp(otp);
-    if (!isValid) {
-      return next(new Errorhandler("Invalid OTP", 400));
-    }
-
-    // Clear OTP fields after successful verification
-    user.otp = undefined;
-    user.otpExpiry = undefined;
-    await user.save({ validateBeforeSave: false });
+    // Marks the challenge verified so /register can go ahead
+    await verifyOtpChallenge("register", email, otp);
 
     res.status(200).json({
       success: true,
@@ -109,7 +57,8 @@ export const verifyOtp = TryCatch(
 // ─────────────────────────────────────────────
 // POST /api/v1/users/register  (UPDATED)
 // Body: { name, phone, email, password }
-// Public – registers after OTP was verified for email.
+// Public – registers after OTP was verified for email, and for phone too
+// when SMS is delivered (otherwise the phone stays unverified for now).
 // ─────────────────────────────────────────────
 export const registerWithEmail = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
@@ -124,44 +73,55 @@ export const registerWithEmail = TryCatch(
 
     // Check phone uniqueness
     const existingPhone = await User.findOne({ phone });
-    if (existingPhone && existingPhone.name !== "__pending__") {
+    if (existingPhone) {
       return next(
         new Errorhandler("User already exists with this phone number", 400),
       );
     }
 
-    // Find the temp user created during OTP send
-    const tempPhone = `pending_${normalizedEmail.replace(/[^a-z0-9]/gi, "_")}_otp`;
-    const tempUser = await User.findOne({ phone: tempPhone });
+    // Also check if any user has this email
+    const emailUser = await User.findOne({ email: normalizedEmail });
+    if (emailUser) {
+      return next(new Errorhandler("This email is already registered", 400));
+    }
 
-    // If tempUser exists AND OTP is still present it means verify-otp was not called
-    if (tempUser && tempUser.otp) {
+    // Email must have been verified via /verify-otp
+    const emailVerified = await hasVerifiedChallenge(
+      "register",
+      normalizedEmail,
+    );
+    if (!emailVerified) {
       return next(new Errorhandler("Please verify your email OTP first", 400));
     }
 
-    // Delete temp record
-    if (tempUser) {
-      await User.deleteOne({ _id: tempUser._id });
+    // Phone must have been verified via /verify-phone-otp — when there is
+    // no SMS gateway, no code could have reached it
+    const phoneRequired = smsDelivers();
+    if (phoneRequired && !(await hasVerifiedChallenge("register", phone))) {
+      return next(new Errorhandler("Please verify your phone OTP first", 400));
     }
 
-    // Also check if any real user has this email
-    const emailUser = await User.findOne({ email: normalizedEmail });
-    if (emailUser && emailUser.name !== "__pending__") {
-      return next(new Errorhandler("This email is already registered", 400));
-    }
-    if (emailUser && emailUser.name === "__pending__") {
-      await User.deleteOne({ _id: emailUser._id });
+    // All checked — only now are the challenges used up
+    const [emailConsumed, phoneConsumed] = await Promise.all([
+      consumeVerifiedChallenge("register", normalizedEmail),
+      phoneRequired ? consumeVerifiedChallenge("register", phone) : true,
+    ]);
+    if (!emailConsumed || !phoneConsumed) {
+      return next(
+        new Errorhandler("Verification expired. Please verify again", 400),
+      );
     }
 
     const user = await User.create({
       name: name.trim(),
       phone,
+      phoneVerified: phoneRequired,
       password,
       email: normalizedEmail,
       emailVerified: true,
     });
 
-    sendToken(res, user, 201);
+    await sendToken(req, res, user, 201);
   },
 );
 
@@ -181,10 +141,7 @@ export const forgotPassword = TryCatch(
       );
     }
 
-    const otp = generateOTP();
-    user.otp = await hash(otp, 10);
-    user.otpExpiry = otpExpiry();
-    await user.save({ validateBeforeSave: false });
+    const otp = await issueOtpChallenge("reset", email, user._id.toString());
 
     await sendOTPEmail(email, otp, "reset");
 
@@ -209,29 +166,23 @@ export const resetPassword = TryCatch(
     };
 
     const user = await User.findOne({ email: email.toLowerCase().trim() });
-    if (!user || !user.otp || !user.otpExpiry) {
+    if (!user) {
       return next(
         new Errorhandler("OTP not found. Please request a new one.", 400),
       );
     }
 
-    if (user.otpExpiry < new Date()) {
-      return next(
-        new Errorhandler("OTP has expired. Please request a new one.", 400),
-      );
-    }
+    await verifyOtpChallenge("reset", email, otp, user._id.toString());
 
-    const isValid = await user.compareOtp(otp);
-    if (!isValid) {
-      return next(new Errorhandler("Invalid OTP", 400));
-    }
-
-    // Update password and clear OTP
+    // Update password and lift any login lockout
     user.password = newPassword; // pre-save hook will hash it
-    user.otp = undefined;
-    user.otpExpiry = undefined;
+    user.failedLoginAttempts = 0;
+    user.lockCount = 0;
+    user.lockUntil = undefined;
     await user.save();
 
+    await deleteOtpChallenge("reset", email);
+
     res.status(200).json({
       success: true,
       message: "Password reset successfully",
@@ -300,29 +251,14 @@ export const verifyEmail = TryCatch(
       return next(new Errorhandler("User not found", 404));
     }
 
-    if (!user.otp || !user.otpExpiry) {
-      return next(
-        new Errorhandler("OTP not found. Please request a new OTP.", 400),
-      );
-    }
-
-    if (user.otpExpiry < new Date()) {
-      return next(
-        new Errorhandler("OTP has expired. Please request a new one.", 400),
-      );
-    }
-
-    const isValid = await user.compareOtp(otp);
-    if (!isValid) {
-      return next(new Errorhandler("Invalid OTP", 400));
-    }
+    await verifyOtpChallenge("verify-email", normalizedEmail, otp, userId);
 
     user.email = normalizedEmail;
     user.emailVerified = true;
-    user.otp = undefined;
-    user.otpExpiry = undefined;
     await user.save({ validateBeforeSave: false });
 
+    await deleteOtpChallenge("verify-email", normalizedEmail);
+
     res.status(200).json({
       success: true,
       message: "Email verified successfully",
@@ -363,10 +299,7 @@ export const sendVerifyEmailOtp = TryCatch(
       return next(new Errorhandler("User not found", 404));
     }
 
-    const otp = generateOTP();
-    user.otp = await hash(otp, 10);
-    user.otpExpiry = otpExpiry();
-    await user.save({ validateBeforeSave: false });
+    const otp = await issueOtpChallenge("verify-email", normalizedEmail, userId);
 
     await sendOTPEmail(normalizedEmail, otp, "verification");
 
@@ -376,3 +309,169 @@ export const sendVerifyEmailOtp = TryCatch(
     });
   },
 );
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/send-phone-otp
+// Body: { phone }
+// Public – sends a registration OTP by SMS to a phone not yet on Finzz.
+// ─────────────────────────────────────────────
+export const sendPhoneOtp = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { phone } = req.body as { phone: string };
+
+    const existingPhone = await User.findOne({ phone });
+    if (existingPhone) {
+      return next(
+        new Errorhandler("User already exists with this phone number", 400),
+      );
+    }
+
+    const otp = await issueOtpChallenge("register", phone);
+
+    await sendOTPSms(phone, otp, "verification");
+
+    res.status(200).json({
+      success: true,
+      message: "OTP sent to your phone number",
+    });
+  },
+);
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/verify-phone-otp
+// Body: { phone, otp }
+// Public – verifies the registration SMS OTP so /register can go ahead.
+// ─────────────────────────────────────────────
+export const verifyPhoneOtp = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { phone, otp } = req.body as { phone: string; otp: string };
+
+    await verifyOtpChallenge("register", phone, otp);
+
+    res.status(200).json({
+      success: true,
+      message: "Phone number verified successfully",
+    });
+  },
+);
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/login/otp/send
+// Body: { phone }
+// Public – sends a passwordless login OTP by SMS.
+// ─────────────────────────────────────────────
+export const sendLoginOtp = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { phone } = req.body as { phone: string };
+
+    const user = await User.findOne({ phone });
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
+
+    const otp = await issueOtpChallenge("login", phone, user._id.toString());
+
+    await sendOTPSms(phone, otp, "login");
+
+    res.status(200).json({
+      success: true,
+      message: "Login OTP sent to your phone number",
+    });
+  },
+);
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/login/otp/verify
+// Body: { phone, otp, deviceName?, platform? }
+// Public – logs in with the SMS OTP instead of a password.
+// ─────────────────────────────────────────────
+export const loginWithOtp = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { phone, otp } = req.body as { phone: string; otp: string };
+
+    const user = await User.findOne({ phone });
+    if (!user) {
+      return next(
+        new Errorhandler("OTP not found. Please request a new OTP.", 400),
+      );
+    }
+
+    await verifyOtpChallenge("login", phone, otp, user._id.toString());
+    await deleteOtpChallenge("login", phone);
+
+    // Receiving the SMS proves ownership of the number
+    if (!user.phoneVerified) {
+      user.phoneVerified = true;
+      await user.save({ validateBeforeSave: false });
+    }
+
+    // The SMS OTP replaces the password, not the second factor
+    if (user.twoFactorEnabled) {
+      return sendTwoFactorChallenge(res, user);
+    }
+
+    await sendToken(req, res, user, 200);
+  },
+);
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/send-verify-phone-otp
+// Protected – sends an SMS OTP to verify the account's own phone number.
+// ─────────────────────────────────────────────
+export const sendVerifyPhoneOtp = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
+
+    if (user.phoneVerified) {
+      return next(new Errorhandler("Phone number is already verified", 400));
+    }
+
+    const otp = await issueOtpChallenge("verify-phone", user.phone, userId);
+
+    await sendOTPSms(user.phone, otp, "verification");
+
+    res.status(200).json({
+      success: true,
+      message: "Verification OTP sent to your phone number",
+    });
+  },
+);
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/verify-phone
+// Body: { otp }
+// Protected – marks the account's phone number as verified.
+// ─────────────────────────────────────────────
+export const verifyPhone = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { otp } = req.body as { otp: string };
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
+
+    await verifyOtpChallenge("verify-phone", user.phone, otp, userId);
+
+    user.phoneVerified = true;
+    await user.save({ validateBeforeSave: false });
+
+    await deleteOtpChallenge("verify-phone", user.phone);
+
+    res.status(200).json({
+      success: true,
+      message: "Phone number verified successfully",
+      user: {
+        _id: user._id,
+        phone: user.phone,
+        phoneVerified: user.phoneVerified,
+      },
+    });
+  },
+);
@@ -1,13 +1,20 @@
 import { NextFunction, Request, Response } from "express";
 import TryCatch from "../utils/TryCatch.js";
 import { Pool } from "../models/poolModel.js";
-import { PoolTx } from "../models/poolTxModel.js";
+import { PoolTx, IPoolTx } from "../models/poolTxModel.js";
 import { User } from "../models/userModel.js";
 import ErrorHandler from "../middlewares/Errorhandler.js";
+import { notifyUsers } from "../services/notificationService.js";
+import { getUserPreferences } from "../services/preferenceService.js";
+import { deleteImageByKey, uploadFile } from "../services/storageService.js";
+import { getCurrentMonthStart, getMonthRange } from "../utils/period.js";
+import { IAttachment, MAX_ATTACHMENTS } from "../models/attachmentSchema.js";
 import {
-  sendPushNotification,
-  sendBulkPushNotifications,
-} from "../services/notificationService.js";
+  deleteAttachmentFiles,
+  deleteAttachmentsWhere,
+  storeAttachment,
+  withSignedUrls,
+} from "../services/attachmentService.js";
 import mongoose from "mongoose";
 
 // ========================
@@ -20,6 +27,8 @@ export const createPool = TryCatch(
     const { name, description, rules } = req.body;
     const userId = req.user.id;
 
+    const creatorPrefs = await getUserPreferences(userId);
+
     const pool = await Pool.create({
       name,
       description,
@@ -27,6 +36,7 @@ export const createPool = TryCatch(
       admin: userId,
       members: [userId], // Creator is the first member
       status: "active",
+      timezone: creatorPrefs.timezone, // month boundaries for the whole pool
     });
 
     return res.status(201).json({
@@ -93,7 +103,7 @@ export const updatePool = TryCatch(
     const { name, description, rules, image } = req.body;
     const userId = req.user.id;
 
-    const pool = await Pool.findById(poolId);
+    const pool = await Pool.findById(poolId).select("+imageKey");
 
     if (!pool) {
       return next(new ErrorHandler("Pool not found", 404));
@@ -110,9 +120,16 @@ export const updatePool = TryCatch(
     if (name !== undefined) pool.name = name;
     if (description !== undefined) pool.description = description;
     if (rules !== undefined) pool.rules = rules;
-    if (image !== undefined) pool.image = image;
+    // Replaced by a URL: the file we stored goes (never the URL itself)
+    const previousKey = pool.imageKey;
+    const imageReplaced = image !== undefined && image !== pool.image;
+    if (imageReplaced) {
+      pool.image = image;
+      pool.imageKey = undefined;
+    }
 
     await pool.save();
+    if (imageReplaced) await deleteImageByKey(previousKey);
 
     return res.status(200).json({
       success: true,
@@ -128,7 +145,7 @@ export const deletePool = TryCatch(
     const { poolId } = req.params;
     const userId = req.user.id;
 
-    const pool = await Pool.findById(poolId);
+    const pool = await Pool.findById(poolId).select("+imageKey");
 
     if (!pool) {
       return next(new ErrorHandler("Pool not found", 404));
@@ -139,11 +156,13 @@ export const deletePool = TryCatch(
       return next(new ErrorHandler("Only the admin can delete the pool", 403));
     }
 
-    // Delete all pool transactions
+    // Delete all pool transactions (and their attachments)
+    await deleteAttachmentsWhere(PoolTx, { poolId });
     await PoolTx.deleteMany({ poolId });
 
-    // Delete pool
+    // Delete pool (and its uploaded image)
     await Pool.findByIdAndDelete(poolId);
+    await deleteImageByKey(pool.imageKey);
 
     return res.status(200).json({
       success: true,
@@ -152,6 +171,101 @@ export const deletePool = TryCatch(
   },
 );
 
+// Upload/replace the pool image (admin only)
+export const uploadPoolImage = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { poolId } = req.params;
+    const userId = req.user.id;
+
+    if (!req.file) {
+      return next(new ErrorHandler("No image file provided", 400));
+    }
+
+    const pool = await Pool.findById(poolId).select("+imageKey");
+
+    if (!pool) {
+      return next(new ErrorHandler("Pool not found", 404));
+    }
+
+    // Check admin
+    if (pool.admin.toString() !== userId) {
+      return next(
+        new ErrorHandler("Only the admin can change the pool image", 403),
+      );
+    }
+
+    const previousKey = pool.imageKey;
+
+    try {
+      const stored = await uploadFile(req.file.buffer, {
+        folder: "pool-images",
+        contentType: req.file.mimetype,
+        resize: { width: 500, height: 500 },
+      });
+
+      pool.image = stored.url;
+      pool.imageKey = stored.key;
+      try {
+        await pool.save();
+      } catch (error) {
+        await deleteImageByKey(stored.key);
+        throw error;
+      }
+
+      // Only once the pool points at the new image
+      await deleteImageByKey(previousKey);
+
+      return res.status(200).json({
+        success: true,
+        message: "Pool image uploaded successfully",
+        image: stored.url,
+        pool,
+      });
+    } catch (error: any) {
+      return next(
+        new ErrorHandler(`Failed to upload pool image: ${error.message}`, 500),
+      );
+    }
+  },
+);
+
+// Remove the pool image (admin only)
+export const deletePoolImage = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { poolId } = req.params;
+    const userId = req.user.id;
+
+    const pool = await Pool.findById(poolId).select("+imageKey");
+
+    if (!pool) {
+      return next(new ErrorHandler("Pool not found", 404));
+    }
+
+    // Check admin
+    if (pool.admin.toString() !== userId) {
+      return next(
+        new ErrorHandler("Only the admin can change the pool image", 403),
+      );
+    }
+
+    if (!pool.image) {
+      return next(new ErrorHandler("Pool has no image", 400));
+    }
+
+    const previousKey = pool.imageKey;
+    pool.image = undefined;
+    pool.imageKey = undefined;
+    await pool.save();
+    await deleteImageByKey(previousKey);
+
+    return res.status(200).json({
+      success: true,
+      message: "Pool image removed successfully",
+      pool,
+    });
+  },
+);
+
 // ========================
 // Membership Management
 // ========================
@@ -195,15 +309,11 @@ export const addMember = TryCatch(
 
     // Send push notification to added member
     const adminUser = await User.findById(adminId).select("name").lean();
-    await sendPushNotification(
-      newMemberId,
-      "Pool Invite",
-      `${(adminUser as any)?.name} added you to ${(pool as any).name}`,
-      {
-        type: "pool_member_added",
-        senderId: adminId,
-        poolId: poolId,
-      },
+    await notifyUsers(
+      "pool_member_added",
+      [newMemberId],
+      { senderName: (adminUser as any)?.name || "", poolName: pool.name },
+      { senderId: adminId, poolId },
     );
 
     return res.status(200).json({
@@ -259,15 +369,11 @@ export const removeMember = TryCatch(
 
     // Send push notification to removed member
     const adminUser = await User.findById(adminId).select("name").lean();
-    await sendPushNotification(
-      memberToRemove,
-      "Pool Update",
-      `${(adminUser as any)?.name} removed you from ${(pool as any).name}`,
-      {
-        type: "pool_member_removed",
-        senderId: adminId,
-        poolId: poolId,
-      },
+    await notifyUsers(
+      "pool_member_removed",
+      [memberToRemove],
+      { senderName: (adminUser as any)?.name || "", poolName: pool.name },
+      { senderId: adminId, poolId },
     );
 
     return res.status(200).json({
@@ -284,7 +390,7 @@ export const leavePool = TryCatch(
     const { poolId } = req.params;
     const userId = req.user.id;
 
-    const pool = await Pool.findById(poolId);
+    const pool = await Pool.findById(poolId).select("+imageKey");
 
     if (!pool) {
       return next(new ErrorHandler("Pool not found", 404));
@@ -308,8 +414,10 @@ export const leavePool = TryCatch(
 
       if (otherMembers.length === 0) {
         // Last member, delete pool
+        await deleteAttachmentsWhere(PoolTx, { poolId });
         await PoolTx.deleteMany({ poolId });
         await Pool.findByIdAndDelete(poolId);
+        await deleteImageByKey(pool.imageKey);
 
         return res.status(200).json({
           success: true,
@@ -470,22 +578,17 @@ export const addPoolTx = TryCatch(
     );
 
     const senderName = await User.findById(userId).select("name").lean();
-
-    const notifications = otherMembers.map((memberId: any) => ({
-      userId: memberId.toString(),
-      title: `Pool: ${pool.name}`,
-      body: `${(senderName as any)?.name} added ₹${amount} (${type})`,
-      data: {
-        type: "pool_tx_added",
-        senderId: userId,
-        poolId,
-        txnId: poolTx._id.toString(),
+    await notifyUsers(
+      "pool_tx_added",
+      otherMembers.map((memberId: any) => memberId.toString()),
+      {
+        senderName: (senderName as any)?.name || "",
+        poolName: pool.name,
+        amount,
+        direction: type,
       },
-    }));
-
-    if (notifications.length > 0) {
-      await sendBulkPushNotifications(notifications);
-    }
+      { senderId: userId, poolId, txnId: poolTx._id.toString() },
+    );
 
     return res.status(201).json({
       success: true,
@@ -531,9 +634,10 @@ export const getPoolTxns = TryCatch(
     }
 
     if (year !== undefined && month !== undefined) {
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0, 23, 59, 59);
-      query.date = { ...query.date, $gte: startDate, $lte: endDate };
+      const { start, end } = getMonthRange(year, month, pool.timezone);
+      query.date = { ...query.date, $gte: start };
+      // Keep the cursor bound if it is earlier than the end of the month
+      if (!query.date.$lt || query.date.$lt > end) query.date.$lt = end;
     }
 
     // Fetch with pagination
@@ -586,10 +690,12 @@ export const editPoolTx = TryCatch(
       return next(new ErrorHandler("Cannot edit verified transactions", 400));
     }
 
-    // Validate date is in current month
+    // Validate date is in current month (in the pool's timezone)
     const txDate = poolTx.date;
-    const now = new Date();
-    const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const txPool = await Pool.findById(poolTx.poolId)
+      .select("timezone")
+      .lean<{ timezone?: string }>();
+    const currentMonthStart = getCurrentMonthStart(txPool?.timezone);
 
     if (txDate < currentMonthStart) {
       return next(
@@ -597,6 +703,12 @@ export const editPoolTx = TryCatch(
       );
     }
 
+    if (date !== undefined && new Date(date) < currentMonthStart) {
+      return next(
+        new ErrorHandler("Cannot move transactions to past months", 400),
+      );
+    }
+
     // Update fields
     if (amount !== undefined) poolTx.amount = amount;
     if (type !== undefined) poolTx.type = type;
@@ -653,10 +765,12 @@ export const deletePoolTx = TryCatch(
       return next(new ErrorHandler("Cannot delete verified transactions", 400));
     }
 
-    // Validate date is in current month
+    // Validate date is in current month (in the pool's timezone)
     const txDate = poolTx.date;
-    const now = new Date();
-    const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const txPool = await Pool.findById(poolTx.poolId)
+      .select("timezone")
+      .lean<{ timezone?: string }>();
+    const currentMonthStart = getCurrentMonthStart(txPool?.timezone);
 
     if (txDate < currentMonthStart) {
       return next(
@@ -667,6 +781,7 @@ export const deletePoolTx = TryCatch(
     const poolId = poolTx.poolId;
 
     await PoolTx.findByIdAndDelete(txnId);
+    await deleteAttachmentFiles(poolTx.attachments);
 
     // Recalculate pool's lastTransaction
     const latestTx = await PoolTx.findOne({ poolId }).sort({ date: -1 }).lean();
@@ -741,15 +856,15 @@ export const verifyPoolTx = TryCatch(
 
     // Send push notification to transaction adder
     const verifierName = await User.findById(userId).select("name").lean();
-    await sendPushNotification(
-      poolTx.addedBy.toString(),
-      `Pool: ${pool.name}`,
-      `${(verifierName as any)?.name} verified your ₹${poolTx.amount} entry`,
+    await notifyUsers(
+      "pool_tx_verified",
+      [poolTx.addedBy.toString()],
       {
-        type: "pool_tx_verified",
-        senderId: userId,
-        txnId: txnId,
+        senderName: (verifierName as any)?.name || "",
+        poolName: pool.name,
+        amount: poolTx.amount,
       },
+      { senderId: userId, poolId: poolTx.poolId.toString(), txnId },
     );
 
     return res.status(200).json({
@@ -760,6 +875,135 @@ export const verifyPoolTx = TryCatch(
   },
 );
 
+// Attachments follow the edit rules: only addedBy, unverified, current month
+async function checkPoolTxEditable(
+  poolTx: IPoolTx,
+  userId: string,
+): Promise<ErrorHandler | null> {
+  if (poolTx.addedBy.toString() !== userId) {
+    return new ErrorHandler("You can only edit transactions you added", 403);
+  }
+  if (poolTx.verified) {
+    return new ErrorHandler("Cannot edit verified transactions", 400);
+  }
+
+  const txPool = await Pool.findById(poolTx.poolId)
+    .select("timezone")
+    .lean<{ timezone?: string }>();
+  if (poolTx.date < getCurrentMonthStart(txPool?.timezone)) {
+    return new ErrorHandler("Cannot edit transactions from past months", 400);
+  }
+  return null;
+}
+
+// Get pool transaction attachments (signed URLs, any pool member)
+export const getPoolTxAttachments = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { txnId } = req.params;
+    const userId = req.user.id;
+
+    const poolTx = await PoolTx.findById(txnId)
+      .select("poolId attachments")
+      .lean<{
+        poolId: mongoose.Types.ObjectId;
+        attachments: IAttachment[];
+      }>();
+    if (!poolTx) {
+      return next(new ErrorHandler("Transaction not found", 404));
+    }
+
+    const isMember = await Pool.exists({ _id: poolTx.poolId, members: userId });
+    if (!isMember) {
+      return next(new ErrorHandler("You are not a member of this pool", 403));
+    }
+
+    return res.status(200).json({
+      success: true,
+      attachments: withSignedUrls(poolTx.attachments),
+    });
+  },
+);
+
+// Add attachment (receipt / document) to a pool transaction
+export const addPoolTxAttachment = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { txnId } = req.params;
+    const userId = req.user.id;
+
+    if (!req.file) {
+      return next(new ErrorHandler("Please upload a file", 400));
+    }
+
+    const poolTx = await PoolTx.findById(txnId);
+    if (!poolTx) {
+      return next(new ErrorHandler("Transaction not found", 404));
+    }
+
+    const denied = await checkPoolTxEditable(poolTx, userId);
+    if (denied) return next(denied);
+
+    if (poolTx.attachments.length >= MAX_ATTACHMENTS) {
+      return next(
+        new ErrorHandler(
+          `A transaction can have at most ${MAX_ATTACHMENTS} attachments`,
+          400,
+        ),
+      );
+    }
+
+    try {
+      const attachment = await storeAttachment(req.file, userId);
+      poolTx.attachments.push(attachment);
+      await poolTx.save();
+    } catch (error: any) {
+      return next(
+        new ErrorHandler(`Failed to upload attachment: ${error.message}`, 500),
+      );
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: "Attachment added successfully",
+      attachments: withSignedUrls(poolTx.attachments),
+    });
+  },
+);
+
+// Delete attachment from a pool transaction
+export const deletePoolTxAttachment = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { txnId, attachmentId } = req.params;
+    const userId = req.user.id;
+
+    const poolTx = await PoolTx.findById(txnId);
+    if (!poolTx) {
+      return next(new ErrorHandler("Transaction not found", 404));
+    }
+
+    const denied = await checkPoolTxEditable(poolTx, userId);
+    if (denied) return next(denied);
+
+    const attachment = poolTx.attachments.find(
+      (a: IAttachment) => a._id.toString() === attachmentId,
+    );
+    if (!attachment) {
+      return next(new ErrorHandler("Attachment not found", 404));
+    }
+
+    poolTx.attachments = poolTx.attachments.filter(
+      (a: IAttachment) => a !== attachment,
+    );
+    await poolTx.save();
+    await deleteAttachmentFiles([attachment]);
+
+    return res.status(200).json({
+      success: true,
+      message: "Attachment deleted successfully",
+      attachments: withSignedUrls(poolTx.attachments),
+    });
+  },
+);
+
 // Get pool statistics
 export const getPoolStats = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
@@ -0,0 +1,78 @@
+import { Request, Response, NextFunction } from "express";
+import TryCatch from "../utils/TryCatch.js";
+import { Session } from "../models/sessionModel.js";
+import Errorhandler from "../middlewares/Errorhandler.js";
+import {
+  revokeSession,
+  revokeAllSessions,
+} from "../services/sessionService.js";
+
+// ─────────────────────────────────────────────
+// GET /api/v1/users/sessions
+// Protected – lists devices the user is signed in on.
+// ─────────────────────────────────────────────
+export const getSessions = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id: userId, sessionId } = req.user;
+
+    const sessions = await Session.find({
+      userId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    })
+      .select("deviceName platform ip lastUsedAt createdAt")
+      .sort({ lastUsedAt: -1 })
+      .lean<any[]>();
+
+    res.status(200).json({
+      success: true,
+      sessions: sessions.map((s) => ({
+        ...s,
+        current: s._id.toString() === sessionId,
+      })),
+    });
+  },
+);
+
+// ─────────────────────────────────────────────
+// DELETE /api/v1/users/sessions/:sessionId
+// Protected – signs out a single device.
+// ─────────────────────────────────────────────
+export const revokeSessionById = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { sessionId } = req.params;
+
+    const revoked = await revokeSession(userId, sessionId);
+    if (!revoked) {
+      return next(new Errorhandler("Session not found", 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Device signed out successfully",
+    });
+  },
+);
+
+// ─────────────────────────────────────────────
+// DELETE /api/v1/users/sessions?keepCurrent=true
+// Protected – signs out every device (optionally except this one).
+// ─────────────────────────────────────────────
+export const revokeAllUserSessions = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id: userId, sessionId } = req.user;
+    const keepCurrent = req.query.keepCurrent === "true";
+
+    const count = await revokeAllSessions(
+      userId,
+      keepCurrent ? sessionId : undefined,
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Signed out of ${count} device(s)`,
+      revoked: count,
+    });
+  },
+);
@@ -0,0 +1,570 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import TryCatch from "../utils/TryCatch.js";
+import { Tx } from "../models/txModel.js";
+import { Chat } from "../models/chatModel.js";
+import { User } from "../models/userModel.js";
+import {
+  SplitGroup,
+  ISplitGroup,
+  ISplitParticipant,
+} from "../models/splitGroupModel.js";
+import ErrorHandler from "../middlewares/Errorhandler.js";
+import { notifyUsers } from "../services/notificationService.js";
+import { computeSplitShares, SplitShare } from "../services/splitService.js";
+import { deleteAttachmentFiles } from "../services/attachmentService.js";
+import {
+  updateSummaryOnAdd,
+  updateSummaryOnDelete,
+  updateSummaryOnEdit,
+} from "../services/summaryService.js";
+import { getCurrentMonthStart } from "../utils/period.js";
+
+// ==========================================
+// Helpers
+// ==========================================
+
+interface SplitChat {
+  _id: mongoose.Types.ObjectId;
+  members: mongoose.Types.ObjectId[];
+  timezone?: string;
+}
+
+/**
+ * The 1:1 chat between the payer and each participant who owes them
+ * (the payer's own part stays off the ledger). Errors when a participant
+ * isn't a friend, or the caller couldn't add to one of the chats.
+ */
+async function findSplitChats(
+  payerId: string,
+  shares: SplitShare[],
+  userId: string,
+): Promise<Map<string, SplitChat>> {
+  const debtorIds = shares
+    .map((share) => share.userId)
+    .filter((id) => id !== payerId);
+  if (debtorIds.length === 0) {
+    throw new ErrorHandler(
+      "Split with at least one person besides the payer",
+      400,
+    );
+  }
+
+  const chats = await Chat.find({
+    groupChat: false,
+    members: { $all: [payerId], $in: debtorIds, $size: 2 },
+  })
+    .select("members timezone")
+    .lean<SplitChat[]>();
+
+  const chatsByDebtor = new Map<string, SplitChat>();
+  for (const chat of chats) {
+    const debtor = chat.members.find((m) => m.toString() !== payerId);
+    if (debtor) chatsByDebtor.set(debtor.toString(), chat);
+  }
+
+  if (debtorIds.some((id) => !chatsByDebtor.has(id))) {
+    throw new ErrorHandler(
+      "Bills can only be split between friends of the payer",
+      400,
+    );
+  }
+
+  const notMember = [...chatsByDebtor.values()].some(
+    (chat) => !chat.members.some((m) => m.toString() === userId),
+  );
+  if (notMember) {
+    throw new ErrorHandler(
+      "You can only split bills you paid or are part of with the payer",
+      403,
+    );
+  }
+
+  return chatsByDebtor;
+}
+
+// Split rows go into the current month only (in each chat's timezone)
+function assertOpenMonth(chats: Iterable<SplitChat>, dates: Date[]) {
+  for (const chat of chats) {
+    const currentMonthStart = getCurrentMonthStart(chat.timezone);
+    if (dates.some((date) => date < currentMonthStart)) {
+      throw new ErrorHandler(
+        "Cannot split into closed months. Only current month is allowed.",
+        400,
+      );
+    }
+  }
+}
+
+// Keep the chat list preview on the latest remaining txn
+async function refreshLastTransaction(chatId: mongoose.Types.ObjectId) {
+  const latestTxn: any = await Tx.findOne({ chatId })
+    .sort({ date: -1 })
+    .select("amount date remarks")
+    .lean();
+
+  if (latestTxn) {
+    await Chat.findByIdAndUpdate(chatId, {
+      lastTransaction: {
+        amount: latestTxn.amount,
+        date: latestTxn.date,
+        remark: latestTxn.remarks || "",
+      },
+    });
+  } else {
+    await Chat.findByIdAndUpdate(chatId, {
+      $unset: { lastTransaction: "" },
+    });
+  }
+}
+
+// Splits change as a unit: only by their creator, while no part is verified
+async function loadEditableSplit(splitId: string, userId: string) {
+  const split = await SplitGroup.findById(splitId);
+  if (!split) {
+    throw new ErrorHandler("Split not found", 404);
+  }
+
+  if (split.addedBy.toString() !== userId) {
+    throw new ErrorHandler("You can only change splits you added", 403);
+  }
+
+  const txns = await Tx.find({ splitGroupId: split._id });
+  if (txns.some((txn: any) => txn.verified)) {
+    throw new ErrorHandler(
+      "Cannot change a split once any part of it is verified",
+      403,
+    );
+  }
+
+  return { split: split as ISplitGroup, txns };
+}
+
+const toSplitParticipants = (shares: SplitShare[]): ISplitParticipant[] =>
+  shares.map((share) => ({
+    user: new mongoose.Types.ObjectId(share.userId),
+    value: share.value,
+    amount: share.amount,
+  }));
+
+type Undo = () => Promise<unknown>;
+
+/**
+ * Run a multi-document change where each step registers how to undo itself.
+ * If a step throws, the steps already done are undone in reverse and the
+ * error is passed on, so split totals, rows and balances never drift apart
+ * (no multi-document transactions: the database may be a standalone server).
+ */
+async function withRollback<T>(
+  work: (onUndo: (undo: Undo) => void) => Promise<T>,
+): Promise<T> {
+  const undos: Undo[] = [];
+  try {
+    return await work((undo) => undos.push(undo));
+  } catch (error) {
+    for (const undo of undos.reverse()) {
+      await undo().catch((undoError) =>
+        console.error("Failed to roll back split change:", undoError),
+      );
+    }
+    throw error;
+  }
+}
+
+// Add one part (payer → debtor) and its summary update
+async function addSplitPart(
+  split: ISplitGroup,
+  chat: SplitChat,
+  share: SplitShare,
+  date: Date,
+  remarks: string | undefined,
+  userId: string,
+  onUndo: (undo: Undo) => void,
+) {
+  const payerId = split.payer.toString();
+  const txn = await Tx.create({
+    chatId: chat._id,
+    from: payerId,
+    to: share.userId,
+    amount: share.amount,
+    date,
+    remarks,
+    addedBy: userId,
+    verified: false,
+    splitGroupId: split._id,
+  });
+  onUndo(() => Tx.deleteOne({ _id: txn._id }));
+
+  await updateSummaryOnAdd(
+    chat._id,
+    date,
+    payerId,
+    share.userId,
+    share.amount,
+    chat.timezone,
+  );
+  onUndo(() =>
+    updateSummaryOnDelete(
+      chat._id,
+      date,
+      payerId,
+      share.userId,
+      share.amount,
+      chat.timezone,
+    ),
+  );
+
+  return txn;
+}
+
+// Remove one part and its summary update (attachment files are left for
+// the caller to delete once the whole change succeeded)
+async function removeSplitPart(
+  txn: any,
+  timezone: string | undefined,
+  onUndo: (undo: Undo) => void,
+) {
+  const from = txn.from.toString();
+  const to = txn.to.toString();
+
+  await updateSummaryOnDelete(
+    txn.chatId,
+    txn.date,
+    from,
+    to,
+    txn.amount,
+    timezone,
+  );
+  onUndo(() =>
+    updateSummaryOnAdd(txn.chatId, txn.date, from, to, txn.amount, timezone),
+  );
+
+  await Tx.deleteOne({ _id: txn._id });
+  onUndo(() => Tx.create(txn.toObject()));
+}
+
+// Everyone else hears about their own part
+async function notifySplitParts(txns: any[], userId: string) {
+  if (txns.length === 0) return;
+
+  const senderName = await User.findById(userId)
+    .select("name")
+    .lean<{ name: string }>();
+  for (const txn of txns) {
+    const otherMember = [txn.from, txn.to]
+      .map((id) => id.toString())
+      .find((id) => id !== userId);
+    if (!otherMember) continue;
+    await notifyUsers(
+      "txn_added",
+      [otherMember],
+      { senderName: senderName?.name || "", amount: txn.amount },
+      {
+        senderId: userId,
+        chatId: txn.chatId.toString(),
+        txnId: txn._id.toString(),
+      },
+    );
+  }
+}
+
+// ==========================================
+// Create Split
+// ==========================================
+export const createSplit = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { total, mode, participants, date, remarks } = req.body;
+    const userId = req.user.id;
+    const payerId: string = req.body.payer || userId;
+
+    const shares = computeSplitShares(total, mode, participants);
+    const chatsByDebtor = await findSplitChats(payerId, shares, userId);
+    const splitDate = new Date(date);
+    assertOpenMonth(chatsByDebtor.values(), [splitDate]);
+
+    const { split, txns } = await withRollback(async (onUndo) => {
+      const split = await SplitGroup.create({
+        payer: payerId,
+        total,
+        mode,
+        participants: toSplitParticipants(shares),
+        date: splitDate,
+        remarks,
+        addedBy: userId,
+      });
+      onUndo(() => SplitGroup.deleteOne({ _id: split._id }));
+
+      // One Tx per participant who owes the payer
+      const txns = [];
+      for (const share of shares) {
+        const chat = chatsByDebtor.get(share.userId);
+        if (!chat || share.amount === 0) continue;
+        txns.push(
+          await addSplitPart(
+            split,
+            chat,
+            share,
+            splitDate,
+            remarks,
+            userId,
+            onUndo,
+          ),
+        );
+      }
+
+      return { split: split as ISplitGroup, txns };
+    });
+
+    for (const chat of chatsByDebtor.values()) {
+      await refreshLastTransaction(chat._id);
+    }
+    await notifySplitParts(txns, userId);
+
+    return res.status(201).json({
+      success: true,
+      message: "Split created successfully",
+      split,
+      txns,
+    });
+  },
+);
+
+// ==========================================
+// Get Split (with its transactions)
+// ==========================================
+export const getSplit = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { splitId } = req.params;
+    const userId = req.user.id;
+
+    const split: any = await SplitGroup.findById(splitId)
+      .populate("payer participants.user", "name avatar")
+      .lean();
+
+    if (!split) {
+      return next(new ErrorHandler("Split not found", 404));
+    }
+
+    const involved = [
+      split.payer?._id?.toString(),
+      split.addedBy.toString(),
+      ...split.participants.map((p: any) => p.user?._id?.toString()),
+    ];
+    if (!involved.includes(userId)) {
+      return next(new ErrorHandler("Split not found", 404));
+    }
+
+    // Only the parts in chats this user can see
+    const txns = await Tx.find({
+      splitGroupId: split._id,
+      $or: [{ from: userId }, { to: userId }],
+    })
+      .sort({ date: -1 })
+      .lean();
+
+    return res.status(200).json({
+      success: true,
+      split,
+      txns,
+    });
+  },
+);
+
+// ==========================================
+// Edit Split
+// ==========================================
+// Parts are updated in place (keeping verification state and attachments);
+// participants dropped from the split lose their Tx, new ones get one.
+export const editSplit = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { splitId } = req.params;
+    const userId = req.user.id;
+    const { total, mode, participants, date, remarks } = req.body;
+
+    const { split, txns } = await loadEditableSplit(splitId, userId);
+    const payerId = split.payer.toString();
+
+    const newTotal: number = total ?? split.total;
+    const newMode = mode ?? split.mode;
+    const newDate = date !== undefined ? new Date(date) : split.date;
+    const newRemarks = remarks !== undefined ? remarks : split.remarks;
+
+    const shares = computeSplitShares(
+      newTotal,
+      newMode,
+      participants ??
+        split.participants.map((p) => ({
+          userId: p.user.toString(),
+          value: p.value,
+        })),
+    );
+    const chatsByDebtor = await findSplitChats(payerId, shares, userId);
+
+    // Both where the parts are now and where they're moving to must be open
+    const oldChats = await Chat.find({
+      _id: { $in: txns.map((txn: any) => txn.chatId) },
+    })
+      .select("members timezone")
+      .lean<SplitChat[]>();
+    assertOpenMonth(oldChats, [split.date]);
+    assertOpenMonth(chatsByDebtor.values(), [newDate]);
+
+    const sharesByDebtor = new Map(shares.map((s) => [s.userId, s]));
+    const touchedChats = new Map<string, SplitChat>();
+    const removedTxns: any[] = [];
+
+    const addedTxns = await withRollback(async (onUndo) => {
+      // Update or remove existing parts
+      for (const txn of txns) {
+        const debtorId = txn.to.toString();
+        const share = sharesByDebtor.get(debtorId);
+        const chat =
+          oldChats.find((c) => c._id.equals(txn.chatId)) ||
+          chatsByDebtor.get(debtorId);
+        if (chat) touchedChats.set(chat._id.toString(), chat);
+
+        if (!share || share.amount === 0) {
+          await removeSplitPart(txn, chat?.timezone, onUndo);
+          removedTxns.push(txn);
+          continue;
+        }
+
+        const oldTx = {
+          date: txn.date,
+          from: payerId,
+          to: debtorId,
+          amount: txn.amount,
+        };
+        const newTx = { ...oldTx, date: newDate, amount: share.amount };
+        const oldRemarks = txn.remarks;
+
+        txn.amount = share.amount;
+        txn.date = newDate;
+        txn.remarks = newRemarks;
+        await txn.save();
+        onUndo(() =>
+          Tx.updateOne(
+            { _id: txn._id },
+            {
+              $set: {
+                amount: oldTx.amount,
+                date: oldTx.date,
+                remarks: oldRemarks,
+              },
+            },
+          ),
+        );
+
+        await updateSummaryOnEdit(txn.chatId, oldTx, newTx, chat?.timezone);
+        onUndo(() =>
+          updateSummaryOnEdit(txn.chatId, newTx, oldTx, chat?.timezone),
+        );
+      }
+
+      // Add parts for new participants
+      const existingDebtors = new Set(
+        txns.map((txn: any) => txn.to.toString()),
+      );
+      const added = [];
+      for (const share of shares) {
+        const chat = chatsByDebtor.get(share.userId);
+        if (!chat || share.amount === 0 || existingDebtors.has(share.userId)) {
+          continue;
+        }
+
+        added.push(
+          await addSplitPart(
+            split,
+            chat,
+            share,
+            newDate,
+            newRemarks,
+            userId,
+            onUndo,
+          ),
+        );
+        touchedChats.set(chat._id.toString(), chat);
+      }
+
+      const previous = {
+        total: split.total,
+        mode: split.mode,
+        participants: split.participants.map(({ user, value, amount }) => ({
+          user,
+          value,
+          amount,
+        })),
+        date: split.date,
+        remarks: split.remarks,
+      };
+      split.total = newTotal;
+      split.mode = newMode;
+      split.participants = toSplitParticipants(shares);
+      split.date = newDate;
+      split.remarks = newRemarks;
+      await split.save();
+      onUndo(() =>
+        SplitGroup.updateOne({ _id: split._id }, { $set: previous }),
+      );
+
+      return added;
+    });
+
+    // Only now that everything succeeded: files can't be brought back
+    for (const txn of removedTxns) {
+      await deleteAttachmentFiles(txn.attachments);
+    }
+    for (const chat of touchedChats.values()) {
+      await refreshLastTransaction(chat._id);
+    }
+    await notifySplitParts(addedTxns, userId);
+
+    const updatedTxns = await Tx.find({ splitGroupId: split._id }).lean();
+
+    return res.status(200).json({
+      success: true,
+      message: "Split updated successfully",
+      split,
+      txns: updatedTxns,
+    });
+  },
+);
+
+// ==========================================
+// Delete Split (all of its transactions)
+// ==========================================
+export const deleteSplit = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { splitId } = req.params;
+    const userId = req.user.id;
+
+    const { split, txns } = await loadEditableSplit(splitId, userId);
+
+    const chats = await Chat.find({
+      _id: { $in: txns.map((txn: any) => txn.chatId) },
+    })
+      .select("members timezone")
+      .lean<SplitChat[]>();
+    assertOpenMonth(chats, [split.date]);
+
+    await withRollback(async (onUndo) => {
+      for (const txn of txns) {
+        const chat = chats.find((c) => c._id.equals(txn.chatId));
+        await removeSplitPart(txn, chat?.timezone, onUndo);
+      }
+      await split.deleteOne();
+    });
+
+    for (const txn of txns) {
+      await deleteAttachmentFiles(txn.attachments);
+    }
+    for (const chat of chats) {
+      await refreshLastTransaction(chat._id);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Split deleted successfully",
+    });
+  },
+);
@@ -1,24 +1,52 @@
 import { Request, Response, NextFunction } from "express";
 import TryCatch from "../utils/TryCatch.js"; // default export
-import { Tx } from "../models/txModel.js";
+import { Tx, TX_KINDS } from "../models/txModel.js";
 import { MonthlySummary } from "../models/monthlySummaryModel.js";
 import { Chat } from "../models/chatModel.js";
 import { User } from "../models/userModel.js";
 import { getCarryForward } from "../services/summaryService.js";
+import {
+  getGroupSettleUp,
+  getSettleUpOverview,
+} from "../services/settleUpService.js";
+import { getUserPreferences } from "../services/preferenceService.js";
+import { getMonthRange, getYearMonth } from "../utils/period.js";
 import ErrorHandler from "../middlewares/Errorhandler.js";
 import mongoose from "mongoose";
 
 /**
  * GET /stats/chat/:chatId?year=2026&month=2
  * Returns per-user stats for a specific month + carry-forward from prior months.
- * If no year/month provided, defaults to current month.
+ * If no year/month provided, defaults to current month (in the chat's timezone).
+ * `balance` is each member's running position at the end of that month
+ * (positive = the others owe them, as in settle-up and the chat list) —
+ * against the other member in a 1:1 chat, against the whole group otherwise.
+ * `byKind` totals the month's transactions per kind (expense, loan,
+ * settlement, refund); `settledUp` is the last settlement the other member
+ * verified.
  */
 export const getChatStats = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
     const { chatId } = req.params;
-    const now = new Date();
-    const year = parseInt(req.query.year as string) || now.getFullYear();
-    const month = parseInt(req.query.month as string) || now.getMonth() + 1;
+
+    // Chat members for names (+ timezone for the default month)
+    const chat = await Chat.findById(chatId)
+      .select("members timezone groupChat settledUp")
+      .populate("members", "name")
+      .lean<{
+        members: { _id: any; name: string }[];
+        timezone?: string;
+        groupChat?: boolean;
+        settledUp?: { at: Date; txnId: any };
+      }>();
+
+    if (!chat) {
+      return next(new ErrorHandler("Chat not found", 404));
+    }
+
+    const current = getYearMonth(new Date(), chat.timezone);
+    const year = parseInt(req.query.year as string) || current.year;
+    const month = parseInt(req.query.month as string) || current.month;
 
     // 1. Get the pre-computed summary for this month (O(1) indexed lookup)
     const summary = await MonthlySummary.findOne({
@@ -35,17 +63,7 @@ export const getChatStats = TryCatch(
     // 2. Get carry-forward balance from all prior months
     const carryForward = await getCarryForward(chatId, year, month);
 
-    // 3. Get chat members for names
-    const chat = await Chat.findById(chatId)
-      .select("members")
-      .populate("members", "name")
-      .lean<{ members: { _id: any; name: string }[] }>();
-
-    if (!chat) {
-      return next(new ErrorHandler("Chat not found", 404));
-    }
-
-    // 4. Build per-user stats with names
+    // 3. Build per-user stats with names
     const members: Record<
       string,
       {
@@ -54,6 +72,7 @@ export const getChatStats = TryCatch(
         totalSent: number;
         totalReceived: number;
         net: number;
+        balance: number;
       }
     > = {};
 
@@ -67,24 +86,59 @@ export const getChatStats = TryCatch(
 
       const totalSent = memberData.totalSent || 0;
       const totalReceived = memberData.totalReceived || 0;
+      const net = totalReceived - totalSent;
 
       members[id] = {
         userId: id,
         name: member.name,
         totalSent,
         totalReceived,
-        net: totalReceived - totalSent, // positive = has to receive, negative = has to send
+        net, // positive = has to receive, negative = has to send
+        balance: -((carryForward[id] || 0) + net) || 0, // no -0
       };
     }
 
+    // 4. Split the month's volume by kind (settlements shown apart)
+    const { start, end } = getMonthRange(year, month, chat.timezone);
+    const kindRows = await Tx.aggregate<{
+      _id: string | null;
+      amount: number;
+      count: number;
+    }>([
+      {
+        $match: {
+          chatId: new mongoose.Types.ObjectId(chatId),
+          date: { $gte: start, $lt: end },
+        },
+      },
+      {
+        $group: {
+          _id: "$kind",
+          amount: { $sum: "$amount" },
+          count: { $sum: 1 },
+        },
+      },
+    ]);
+
+    const byKind: Record<string, { amount: number; count: number }> = {};
+    for (const kind of TX_KINDS) byKind[kind] = { amount: 0, count: 0 };
+    for (const row of kindRows) {
+      const kind = row._id || "expense"; // rows from before kinds existed
+      byKind[kind].amount += row.amount;
+      byKind[kind].count += row.count;
+    }
+
     return res.status(200).json({
       success: true,
       stats: {
         year,
         month,
+        groupChat: !!chat.groupChat,
         members,
         carryForward,
         txCount: summary?.txCount || 0,
+        byKind,
+        settledUp: chat.settledUp || null,
       },
     });
   },
@@ -119,62 +173,198 @@ export const getChatMonths = TryCatch(
 );
 
 // ==============================
-// Legacy endpoints (kept for Reports screen)
+// Settle Up
 // ==============================
 
-// Get monthly report for user across all transactions
-export const getMonthlyReport = TryCatch(
+/**
+ * GET /stats/settle-up
+ * Net position with every friend (positive = they owe you) and in each group
+ * chat, with the payments that would settle your part of each group.
+ */
+export const getSettleUp = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
+    const overview = await getSettleUpOverview(req.user.id);
+
+    return res.status(200).json({
+      success: true,
+      ...overview,
+    });
+  },
+);
+
+/**
+ * GET /stats/settle-up/chat/:chatId
+ * Every member's balance in a group chat (positive = the group owes them)
+ * and the payments that clear all debts in it.
+ */
+export const getChatSettleUp = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { chatId } = req.params;
     const userId = req.user.id;
 
-    const report = await Tx.aggregate([
-      {
-        $match: {
-          $or: [
-            { to: new mongoose.Types.ObjectId(userId) },
-            { from: new mongoose.Types.ObjectId(userId) },
-          ],
-        },
+    const chat = await Chat.findById(chatId)
+      .select("name groupChat members")
+      .populate("members", "name avatar")
+      .lean<{
+        _id: mongoose.Types.ObjectId;
+        name?: string;
+        groupChat?: boolean;
+        members: { _id: any; name: string; avatar?: string }[];
+      }>();
+
+    if (!chat || !chat.groupChat) {
+      return next(new ErrorHandler("Group chat not found", 404));
+    }
+
+    const isMember = chat.members.some(
+      (member) => member._id.toString() === userId,
+    );
+    if (!isMember) {
+      return next(new ErrorHandler("You are not a member of this chat", 403));
+    }
+
+    const { balances, payments } = await getGroupSettleUp(chat._id);
+
+    return res.status(200).json({
+      success: true,
+      chatId,
+      name: chat.name,
+      members: chat.members.map((member) => ({
+        userId: member._id.toString(),
+        name: member.name,
+        avatar: member.avatar,
+        balance: balances[member._id.toString()] || 0,
+      })),
+      payments,
+    });
+  },
+);
+
+// ==============================
+// Legacy endpoints (kept for Reports screen)
+// ==============================
+
+/**
+ * Pipeline stages that turn matched txns into per-month money in (credit)
+ * and out (debit) for `userId`, newest first. Group payments count leg by
+ * leg like MonthlySummary and getTxLegs (the payer's own share moves
+ * nothing); `counterpartyId` keeps only legs with that user.
+ */
+function legsByMonthStages(
+  userId: string,
+  timezone: string,
+  counterpartyId?: string,
+): mongoose.PipelineStage[] {
+  const user = new mongoose.Types.ObjectId(userId);
+  const involved: any[] = [
+    { $or: [{ $eq: ["$$leg.to", user] }, { $eq: ["$$leg.from", user] }] },
+  ];
+  if (counterpartyId) {
+    const counterparty = new mongoose.Types.ObjectId(counterpartyId);
+    involved.push({
+      $or: [
+        { $eq: ["$$leg.to", counterparty] },
+        { $eq: ["$$leg.from", counterparty] },
+      ],
+    });
+  }
+  const sumLegs = (side: "to" | "from") => ({
+    $sum: {
+      $map: {
+        input: "$legs",
+        as: "leg",
+        in: { $cond: [{ $eq: [`$$leg.${side}`, user] }, "$$leg.amount", 0] },
       },
-      {
-        $group: {
-          _id: {
-            year: { $year: "$date" },
-            month: { $month: "$date" },
-          },
-          totalCredit: {
-            $sum: {
-              $cond: [
-                { $eq: ["$to", new mongoose.Types.ObjectId(userId)] },
-                "$amount",
-                0,
-              ],
+    },
+  });
+
+  return [
+    // Same legs as getTxLegs: participants other than the payer, or `to`
+    {
+      $project: {
+        date: 1,
+        legs: {
+          $cond: [
+            { $gt: [{ $size: { $ifNull: ["$participants", []] } }, 0] },
+            {
+              $map: {
+                input: {
+                  $filter: {
+                    input: "$participants",
+                    as: "p",
+                    cond: {
+                      $and: [
+                        { $ne: ["$$p.user", "$from"] },
+                        { $gt: ["$$p.amount", 0] },
+                      ],
+                    },
+                  },
+                },
+                as: "p",
+                in: { from: "$from", to: "$$p.user", amount: "$$p.amount" },
+              },
             },
-          },
-          totalDebit: {
-            $sum: {
+            {
               $cond: [
-                { $eq: ["$from", new mongoose.Types.ObjectId(userId)] },
-                "$amount",
-                0,
+                { $ifNull: ["$to", false] },
+                [{ from: "$from", to: "$to", amount: "$amount" }],
+                [],
               ],
             },
-          },
-          count: { $sum: 1 },
+          ],
+        },
+      },
+    },
+    {
+      $project: {
+        date: 1,
+        legs: {
+          $filter: { input: "$legs", as: "leg", cond: { $and: involved } },
         },
       },
+    },
+    { $match: { "legs.0": { $exists: true } } },
+    {
+      $group: {
+        _id: {
+          year: { $year: { date: "$date", timezone } },
+          month: { $month: { date: "$date", timezone } },
+        },
+        totalCredit: { $sum: sumLegs("to") },
+        totalDebit: { $sum: sumLegs("from") },
+        count: { $sum: 1 },
+      },
+    },
+    {
+      $project: {
+        year: "$_id.year",
+        month: "$_id.month",
+        totalCredit: 1,
+        totalDebit: 1,
+        net: { $subtract: ["$totalCredit", "$totalDebit"] },
+        count: 1,
+        _id: 0,
+      },
+    },
+    { $sort: { year: -1, month: -1 } },
+  ];
+}
+
+// Get monthly report for user across all transactions
+export const getMonthlyReport = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { timezone } = await getUserPreferences(userId);
+
+    const user = new mongoose.Types.ObjectId(userId);
+
+    const report = await Tx.aggregate([
       {
-        $project: {
-          year: "$_id.year",
-          month: "$_id.month",
-          totalCredit: 1,
-          totalDebit: 1,
-          net: { $subtract: ["$totalCredit", "$totalDebit"] },
-          count: 1,
-          _id: 0,
+        $match: {
+          $or: [{ to: user }, { from: user }, { "participants.user": user }],
         },
       },
-      { $sort: { year: -1, month: -1 } },
+      ...legsByMonthStages(userId, timezone),
       { $limit: 12 },
     ]);
 
@@ -185,66 +375,28 @@ export const getMonthlyReport = TryCatch(
   },
 );
 
-// Get per-friend report
+// Get per-friend report (their 1:1 payments and group payments between them)
 export const getPerFriendReport = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
     const { friendId } = req.params;
     const userId = req.user.id;
+    const { timezone } = await getUserPreferences(userId);
+
+    const user = new mongoose.Types.ObjectId(userId);
+    const friend = new mongoose.Types.ObjectId(friendId);
 
     const report = await Tx.aggregate([
       {
         $match: {
           $or: [
-            {
-              to: new mongoose.Types.ObjectId(userId),
-              from: new mongoose.Types.ObjectId(friendId),
-            },
-            {
-              to: new mongoose.Types.ObjectId(friendId),
-              from: new mongoose.Types.ObjectId(userId),
-            },
+            { to: user, from: friend },
+            { to: friend, from: user },
+            { from: user, "participants.user": friend },
+            { from: friend, "participants.user": user },
           ],
         },
       },
-      {
-        $group: {
-          _id: {
-            year: { $year: "$date" },
-            month: { $month: "$date" },
-          },
-          totalCredit: {
-            $sum: {
-              $cond: [
-                { $eq: ["$to", new mongoose.Types.ObjectId(userId)] },
-                "$amount",
-                0,
-              ],
-            },
-          },
-          totalDebit: {
-            $sum: {
-              $cond: [
-                { $eq: ["$from", new mongoose.Types.ObjectId(userId)] },
-                "$amount",
-                0,
-              ],
-            },
-          },
-          count: { $sum: 1 },
-        },
-      },
-      {
-        $project: {
-          year: "$_id.year",
-          month: "$_id.month",
-          totalCredit: 1,
-          totalDebit: 1,
-          net: { $subtract: ["$totalCredit", "$totalDebit"] },
-          count: 1,
-          _id: 0,
-        },
-      },
-      { $sort: { year: -1, month: -1 } },
+      ...legsByMonthStages(userId, timezone, friendId),
     ]);
 
     return res.status(200).json({
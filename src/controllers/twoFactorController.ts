@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from "express";
+import TryCatch from "../utils/TryCatch.js";
+import { User } from "../models/userModel.js";
+import Errorhandler from "../middlewares/Errorhandler.js";
+import sendToken from "../utils/sendtoken.js";
+import {
+  generateTotpSecret,
+  buildOtpAuthUri,
+  verifyTotp,
+} from "../utils/totp.js";
+import {
+  generateBackupCodes,
+  verifyTwoFactorChallenge,
+  verifyTwoFactorCode,
+} from "../services/twoFactorService.js";
+
+const ISSUER = "Finzz";
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/2fa/setup
+// Protected – starts enrollment. Returns the otpauth URI (for the QR code),
+// the raw secret (manual entry) and one-time backup codes.
+// 2FA is not active until /2fa/enable confirms a code.
+// ─────────────────────────────────────────────
+export const setupTwoFactor = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
+
+    if (user.twoFactorEnabled) {
+      return next(
+        new Errorhandler("Two-factor authentication is already enabled", 400),
+      );
+    }
+
+    const secret = generateTotpSecret();
+    const { codes, hashes } = await generateBackupCodes();
+
+    user.twoFactorPendingSecret = secret;
+    user.twoFactorBackupCodes = hashes;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.phone, ISSUER),
+      backupCodes: codes, // shown once — the app must ask the user to save them
+    });
+  },
+);
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/2fa/enable
+// Body: { code }
+// Protected – confirms enrollment with a code from the authenticator app.
+// ─────────────────────────────────────────────
+export const enableTwoFactor = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { code } = req.body as { code: string };
+
+    const user = await User.findById(userId).select("+twoFactorPendingSecret");
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
+
+    if (user.twoFactorEnabled) {
+      return next(
+        new Errorhandler("Two-factor authentication is already enabled", 400),
+      );
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      return next(
+        new Errorhandler("Please start two-factor setup first", 400),
+      );
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      return next(new Errorhandler("Invalid authentication code", 400));
+    }
+
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorLastStep = step;
+    user.twoFactorEnabled = true;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication enabled",
+    });
+  },
+);
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/2fa/disable
+// Body: { password }
+// Protected – turns 2FA off after re-entering the account password.
+// ─────────────────────────────────────────────
+export const disableTwoFactor = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { password } = req.body as { password: string };
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
+
+    if (!user.twoFactorEnabled) {
+      return next(
+        new Errorhandler("Two-factor authentication is not enabled", 400),
+      );
+    }
+
+    const isMatch = await user.comparePassword(password);
+    if (!isMatch) {
+      return next(new Errorhandler("Password is incorrect", 401));
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorBackupCodes = [];
+    user.twoFactorLastStep = undefined;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  },
+);
+
+// ─────────────────────────────────────────────
+// POST /api/v1/users/login/2fa
+// Body: { challengeToken, code, deviceName?, platform? }
+// Public – second login step. `code` is an authenticator code or a backup code.
+// ─────────────────────────────────────────────
+export const verifyTwoFactorLogin = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { challengeToken, code } = req.body as {
+      challengeToken: string;
+      code: string;
+    };
+
+    // Attempts per challenge are capped by twoFactorLoginLimiter
+    const challenge = verifyTwoFactorChallenge(challengeToken);
+    if (!challenge) {
+      return next(
+        new Errorhandler("Login challenge expired, please login again", 401),
+      );
+    }
+
+    const user = await User.findById(challenge.userId).select(
+      "+twoFactorSecret +twoFactorBackupCodes +twoFactorLastStep",
+    );
+    if (!user || !user.twoFactorEnabled) {
+      return next(new Errorhandler("Invalid login challenge", 401));
+    }
+
+    const isValid = await verifyTwoFactorCode(user, code);
+    if (!isValid) {
+      return next(new Errorhandler("Invalid authentication code", 401));
+    }
+
+    await sendToken(req, res, user, 200);
+  },
+);
@@ -1,27 +1,96 @@
 import { NextFunction, Request, Response } from "express";
 import TryCatch from "../utils/TryCatch.js";
-import { Tx } from "../models/txModel.js";
+import { Tx, ITx, ITxParticipant, TX_KINDS } from "../models/txModel.js";
 import { Chat } from "../models/chatModel.js";
 import { User } from "../models/userModel.js";
 import ErrorHandler from "../middlewares/Errorhandler.js";
-import { sendPushNotification } from "../services/notificationService.js";
+import { notifyUsers } from "../services/notificationService.js";
+import { getCurrentMonthStart, getMonthRange } from "../utils/period.js";
+import { IAttachment, MAX_ATTACHMENTS } from "../models/attachmentSchema.js";
 import {
+  deleteAttachmentFiles,
+  storeAttachment,
+  withSignedUrls,
+} from "../services/attachmentService.js";
+import {
+  getChatBalances,
+  getTxLegs,
+  updateSummaryForLegs,
   updateSummaryOnAdd,
   updateSummaryOnDelete,
   updateSummaryOnEdit,
 } from "../services/summaryService.js";
 import mongoose from "mongoose";
 
+// Shares may be off by rounding, never by more
+const SHARE_TOLERANCE = 0.01;
+
+// How long one settle-up request holds the chat (a crashed request's hold
+// expires after this)
+const SETTLE_LEASE_MS = 30 * 1000;
+
+/**
+ * Group payment shares → Tx participants, or an error message when a user
+ * repeats or the shares don't add up to the amount
+ */
+function toParticipants(
+  participants: { userId: string; amount: number }[],
+  amount: number,
+): { user: mongoose.Types.ObjectId; amount: number }[] | string {
+  const userIds = participants.map((p) => p.userId);
+  if (new Set(userIds).size !== userIds.length) {
+    return "Each participant can only appear once";
+  }
+
+  const total = participants.reduce((sum, p) => sum + p.amount, 0);
+  if (Math.abs(total - amount) > SHARE_TOLERANCE) {
+    return `Participant shares (${total}) must add up to the amount (${amount})`;
+  }
+
+  return participants.map((p) => ({
+    user: new mongoose.Types.ObjectId(p.userId),
+    amount: p.amount,
+  }));
+}
+
+// Everyone a transaction touches: payer, receiver or participants
+const involvedUserIds = (txn: {
+  from: any;
+  to?: any;
+  participants?: { user: any }[];
+}) => [
+  ...new Set(
+    [txn.from, txn.to, ...(txn.participants || []).map((p) => p.user)]
+      .filter(Boolean)
+      .map((id) => id.toString()),
+  ),
+];
+
 // Add transaction
+// 1:1 payments use `to`; group chats may also send `participants` (one payer
+// covering several members, with each one's share)
 export const addtxns = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
-    const { chatId, to, from, amount, date, remarks } = req.body;
+    const { chatId, to, from, amount, kind, date, remarks, participants } =
+      req.body;
     const userId = req.user.id;
 
-    // Validate transaction date is not in a closed month (past month)
+    // Validate user is member of the chat
+    const chat = await Chat.findById(chatId)
+      .select("members timezone groupChat name")
+      .lean<{
+        members: any[];
+        timezone?: string;
+        groupChat?: boolean;
+        name?: string;
+      }>();
+    if (!chat) {
+      return next(new ErrorHandler("Chat not found", 404));
+    }
+
+    // Validate transaction date is not in a closed month (past month, in the chat's timezone)
     const txDate = new Date(date);
-    const now = new Date();
-    const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const currentMonthStart = getCurrentMonthStart(chat.timezone);
 
     if (txDate < currentMonthStart) {
       return next(
@@ -32,27 +101,43 @@ export const addtxns = TryCatch(
       );
     }
 
-    // Validate user is member of the chat
-    const chat = await Chat.findById(chatId)
-      .select("members")
-      .lean<{ members: any[] }>();
-    if (!chat) {
-      return next(new ErrorHandler("Chat not found", 404));
+    const memberIds = chat.members.map((member) => member.toString());
+    if (!memberIds.includes(userId)) {
+      return next(new ErrorHandler("You are not a member of this chat", 403));
     }
 
-    const isMember = chat.members.some(
-      (member) => member.toString() === userId,
-    );
-    if (!isMember) {
-      return next(new ErrorHandler("You are not a member of this chat", 403));
+    let shares: { user: mongoose.Types.ObjectId; amount: number }[] | undefined;
+    if (participants) {
+      if (!chat.groupChat) {
+        return next(
+          new ErrorHandler(
+            "Participants are only supported in group chats",
+            400,
+          ),
+        );
+      }
+      const result = toParticipants(participants, amount);
+      if (typeof result === "string") {
+        return next(new ErrorHandler(result, 400));
+      }
+      shares = result;
+    }
+
+    // Everyone involved must be in the chat
+    const involved = involvedUserIds({ from, to, participants: shares });
+    if (involved.some((id) => !memberIds.includes(id))) {
+      return next(
+        new ErrorHandler("All parties must be members of this chat", 400),
+      );
     }
 
     // Create transaction
     const txn = await Tx.create({
       chatId,
-      to,
+      ...(shares ? { participants: shares } : { to }),
       from,
       amount,
+      kind,
       date,
       remarks,
       addedBy: userId,
@@ -60,7 +145,24 @@ export const addtxns = TryCatch(
     });
 
     // Update monthly summary (atomic $inc)
-    await updateSummaryOnAdd(chatId, new Date(date), from, to, amount);
+    if (shares) {
+      await updateSummaryForLegs(
+        chatId,
+        new Date(date),
+        getTxLegs(txn),
+        1,
+        chat.timezone,
+      );
+    } else {
+      await updateSummaryOnAdd(
+        chatId,
+        new Date(date),
+        from,
+        to,
+        amount,
+        chat.timezone,
+      );
+    }
 
     // Update chat's lastTransaction
     await Chat.findByIdAndUpdate(chatId, {
@@ -71,24 +173,21 @@ export const addtxns = TryCatch(
       },
     });
 
-    // Send push notification to the other member
-    const otherMember = chat.members.find(
-      (member: any) => member.toString() !== userId,
-    );
-    if (otherMember) {
+    // Send push notification to everyone else involved
+    const recipients = involved.filter((id) => id !== userId);
+    if (recipients.length > 0) {
       const senderName = await User.findById(userId)
         .select("name")
         .lean<{ name: string }>();
-      await sendPushNotification(
-        otherMember.toString(),
-        "New Transaction",
-        `₹${amount} added by ${senderName?.name}`,
+      await notifyUsers(
+        "txn_added",
+        recipients,
         {
-          type: "txn_added",
-          senderId: userId,
-          chatId,
-          txnId: txn._id.toString(),
+          senderName: senderName?.name || "",
+          amount,
+          ...(chat.groupChat && chat.name && { chatName: chat.name }),
         },
+        { senderId: userId, chatId, txnId: txn._id.toString() },
       );
     }
 
@@ -100,6 +199,121 @@ export const addtxns = TryCatch(
   },
 );
 
+// Settle up a 1:1 chat: records a settlement for exactly the all-time
+// balance (whoever owes pays the other). The chat counts as settled once the
+// other member verifies it
+export const settleChat = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { chatId, remarks } = req.body;
+    const userId = req.user.id;
+
+    const chat = await Chat.findById(chatId)
+      .select("members timezone groupChat")
+      .lean<{ members: any[]; timezone?: string; groupChat?: boolean }>();
+    if (!chat) {
+      return next(new ErrorHandler("Chat not found", 404));
+    }
+
+    const memberIds = chat.members.map((member) => member.toString());
+    if (!memberIds.includes(userId)) {
+      return next(new ErrorHandler("You are not a member of this chat", 403));
+    }
+
+    if (chat.groupChat) {
+      return next(
+        new ErrorHandler(
+          "Group chats settle member by member. See the settle-up suggestions",
+          400,
+        ),
+      );
+    }
+
+    const otherMember = memberIds.find((id) => id !== userId);
+    if (!otherMember) {
+      return next(new ErrorHandler("Chat has no other member", 400));
+    }
+
+    // One settlement at a time: a double submit would pay the balance twice
+    const now = new Date();
+    const claimed = await Chat.findOneAndUpdate(
+      {
+        _id: chatId,
+        $or: [
+          { settleLockedUntil: { $exists: false } },
+          { settleLockedUntil: { $lte: now } },
+        ],
+      },
+      { settleLockedUntil: new Date(now.getTime() + SETTLE_LEASE_MS) },
+    );
+    if (!claimed) {
+      return next(
+        new ErrorHandler(
+          "A settlement for this chat is already in progress",
+          409,
+        ),
+      );
+    }
+
+    let txn;
+    try {
+      // Positive = the other member owes you. All-time, so payments dated
+      // in the future are settled too
+      const balances = await getChatBalances(chatId);
+      const owed = balances[userId] || 0;
+      if (Math.abs(owed) < SHARE_TOLERANCE) {
+        return next(new ErrorHandler("This chat is already settled up", 400));
+      }
+
+      const [from, to] =
+        owed < 0 ? [userId, otherMember] : [otherMember, userId];
+      const amount = Math.abs(owed);
+
+      txn = await Tx.create({
+        chatId,
+        to,
+        from,
+        amount,
+        kind: "settlement",
+        date: now,
+        remarks,
+        addedBy: userId,
+        verified: false,
+      });
+
+      await updateSummaryOnAdd(chatId, now, from, to, amount, chat.timezone);
+
+      await Chat.findByIdAndUpdate(chatId, {
+        lastTransaction: {
+          amount,
+          date: now,
+          remark: remarks || "",
+        },
+      });
+    } finally {
+      await Chat.updateOne(
+        { _id: chatId },
+        { $unset: { settleLockedUntil: "" } },
+      );
+    }
+
+    const senderName = await User.findById(userId)
+      .select("name")
+      .lean<{ name: string }>();
+    await notifyUsers(
+      "txn_added",
+      [otherMember],
+      { senderName: senderName?.name || "", amount: txn.amount },
+      { senderId: userId, chatId, txnId: txn._id.toString() },
+    );
+
+    return res.status(201).json({
+      success: true,
+      message: "Settlement recorded. Waiting for the other member to verify",
+      txn,
+    });
+  },
+);
+
 // Get transactions for a chat with cursor-based pagination
 export const getTxns = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
@@ -116,11 +330,13 @@ export const getTxns = TryCatch(
     // Build query
     const query: any = { chatId: new mongoose.Types.ObjectId(chatId) };
 
-    // Month filter (if year and month provided)
+    // Month filter (if year and month provided), in the chat's timezone
     if (year && month) {
-      const monthStart = new Date(year, month - 1, 1);
-      const monthEnd = new Date(year, month, 1);
-      query.date = { $gte: monthStart, $lt: monthEnd };
+      const chat = await Chat.findById(chatId)
+        .select("timezone")
+        .lean<{ timezone?: string }>();
+      const { start, end } = getMonthRange(year, month, chat?.timezone);
+      query.date = { $gte: start, $lt: end };
     }
 
     // Cursor pagination (within the month if filtered)
@@ -179,6 +395,13 @@ export const verifyTxn = TryCatch(
       );
     }
 
+    // Guard: only someone the txn involves (the other member in a 1:1 chat)
+    if (!involvedUserIds(txn).includes(userId)) {
+      return next(
+        new ErrorHandler("You are not involved in this transaction", 403),
+      );
+    }
+
     // Guard: already verified
     if (txn.verified) {
       return next(new ErrorHandler("Transaction is already verified", 400));
@@ -190,19 +413,22 @@ export const verifyTxn = TryCatch(
     txn.verifiedAt = new Date();
     await txn.save();
 
+    // A verified settlement is what marks the chat settled
+    if (txn.kind === "settlement") {
+      await Chat.findByIdAndUpdate(txn.chatId, {
+        settledUp: { at: txn.date, txnId: txn._id },
+      });
+    }
+
     // Send push notification to the person who added the txn
     const verifierName = await User.findById(userId)
       .select("name")
       .lean<{ name: string }>();
-    await sendPushNotification(
-      txn.addedBy.toString(),
-      "Transaction Verified",
-      `₹${txn.amount} verified by ${verifierName?.name}`,
-      {
-        type: "txn_verified",
-        senderId: userId,
-        txnId: txnId,
-      },
+    await notifyUsers(
+      "txn_verified",
+      [txn.addedBy.toString()],
+      { senderName: verifierName?.name || "", amount: txn.amount },
+      { senderId: userId, chatId: txn.chatId.toString(), txnId },
     );
 
     return res.status(200).json({
@@ -218,7 +444,7 @@ export const editTxn = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
     const { txnId } = req.params;
     const userId = req.user.id;
-    const { amount, date, remarks, to, from } = req.body;
+    const { amount, kind, date, remarks, to, from, participants } = req.body;
 
     const txn = await Tx.findById(txnId);
 
@@ -238,11 +464,44 @@ export const editTxn = TryCatch(
       return next(new ErrorHandler("Cannot edit verified transaction", 403));
     }
 
+    // Guard: split parts change together (see splitController)
+    if (txn.splitGroupId) {
+      return next(
+        new ErrorHandler(
+          "This transaction is part of a split. Edit the split instead",
+          400,
+        ),
+      );
+    }
+
+    // Guard: a settlement is exactly the balance it cleared
+    if (txn.kind === "settlement") {
+      return next(
+        new ErrorHandler(
+          "Settlements cannot be edited. Delete it and settle up again",
+          400,
+        ),
+      );
+    }
+
+    // Settlements only come from the settle-up endpoint
+    if (
+      kind !== undefined &&
+      (kind === "settlement" || !TX_KINDS.includes(kind))
+    ) {
+      return next(
+        new ErrorHandler("Kind must be one of: expense, loan, refund", 400),
+      );
+    }
+
+    const txChat = await Chat.findById(txn.chatId)
+      .select("timezone members")
+      .lean<{ timezone?: string; members: any[] }>();
+    const currentMonthStart = getCurrentMonthStart(txChat?.timezone);
+
     // Guard: cannot edit transactions in closed months (if date is being changed)
     if (date !== undefined) {
       const newDate = new Date(date);
-      const now = new Date();
-      const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
 
       if (newDate < currentMonthStart) {
         return next(
@@ -255,38 +514,90 @@ export const editTxn = TryCatch(
     }
 
     // Also check if the original transaction is in a closed month
-    const now = new Date();
-    const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
     if (txn.date < currentMonthStart) {
       return next(
         new ErrorHandler("Cannot edit transactions from closed months.", 400),
       );
     }
 
+    const isGroupPayment = !!txn.participants?.length;
+    if (isGroupPayment ? to !== undefined : participants !== undefined) {
+      return next(
+        new ErrorHandler(
+          isGroupPayment
+            ? "Group payments are split between participants, not sent 'to' one member"
+            : "Only group payments have participants",
+          400,
+        ),
+      );
+    }
+
     // Capture old values before update for summary recalculation
-    const oldTx = {
-      date: txn.date,
-      from: txn.from.toString(),
-      to: txn.to.toString(),
-      amount: txn.amount,
-    };
+    const oldDate = txn.date;
+    const oldLegs = getTxLegs(txn);
 
     // Update fields
     if (amount !== undefined) txn.amount = amount;
     if (date !== undefined) txn.date = date;
     if (remarks !== undefined) txn.remarks = remarks;
+    if (kind !== undefined) txn.kind = kind;
     if (to !== undefined) txn.to = to;
     if (from !== undefined) txn.from = from;
 
+    // Shares must still add up (a new amount needs new shares too)
+    if (isGroupPayment) {
+      const result = toParticipants(
+        participants ||
+          txn.participants!.map((p: ITxParticipant) => ({
+            userId: p.user.toString(),
+            amount: p.amount,
+          })),
+        txn.amount,
+      );
+      if (typeof result === "string") {
+        return next(new ErrorHandler(result, 400));
+      }
+      txn.participants = result;
+    }
+
+    const memberIds = (txChat?.members || []).map((m) => m.toString());
+    if (involvedUserIds(txn).some((id) => !memberIds.includes(id))) {
+      return next(
+        new ErrorHandler("All parties must be members of this chat", 400),
+      );
+    }
+
     await txn.save();
 
     // Update monthly summary (handles month/direction/amount changes)
-    await updateSummaryOnEdit(txn.chatId, oldTx, {
-      date: txn.date,
-      from: txn.from.toString(),
-      to: txn.to.toString(),
-      amount: txn.amount,
-    });
+    if (isGroupPayment) {
+      await updateSummaryForLegs(
+        txn.chatId,
+        oldDate,
+        oldLegs,
+        -1,
+        txChat?.timezone,
+      );
+      await updateSummaryForLegs(
+        txn.chatId,
+        txn.date,
+        getTxLegs(txn),
+        1,
+        txChat?.timezone,
+      );
+    } else {
+      await updateSummaryOnEdit(
+        txn.chatId,
+        { date: oldDate, ...oldLegs[0] }, // 1:1 = one leg, from → to
+        {
+          date: txn.date,
+          from: txn.from.toString(),
+          to: txn.to!.toString(),
+          amount: txn.amount,
+        },
+        txChat?.timezone,
+      );
+    }
 
     // Update chat's lastTransaction if this is the latest txn
     const chat = await Chat.findById(txn.chatId).select("lastTransaction");
@@ -338,18 +649,51 @@ export const deleteTxn = TryCatch(
       return next(new ErrorHandler("Cannot delete verified transaction", 403));
     }
 
+    // Guard: split parts change together (see splitController)
+    if (txn.splitGroupId) {
+      return next(
+        new ErrorHandler(
+          "This transaction is part of a split. Delete the split instead",
+          400,
+        ),
+      );
+    }
+
     const chatId = txn.chatId;
+    const txChat = await Chat.findById(chatId)
+      .select("timezone")
+      .lean<{ timezone?: string }>();
 
     // Update monthly summary before deletion
-    await updateSummaryOnDelete(
-      chatId,
-      txn.date,
-      txn.from.toString(),
-      txn.to.toString(),
-      txn.amount,
-    );
+    if (txn.participants?.length) {
+      await updateSummaryForLegs(
+        chatId,
+        txn.date,
+        getTxLegs(txn),
+        -1,
+        txChat?.timezone,
+      );
+    } else {
+      await updateSummaryOnDelete(
+        chatId,
+        txn.date,
+        txn.from.toString(),
+        txn.to!.toString(),
+        txn.amount,
+        txChat?.timezone,
+      );
+    }
 
     await Tx.findByIdAndDelete(txnId);
+    await deleteAttachmentFiles(txn.attachments);
+
+    // The chat is no longer settled by this payment
+    if (txn.kind === "settlement") {
+      await Chat.updateOne(
+        { _id: chatId, "settledUp.txnId": txn._id },
+        { $unset: { settledUp: "" } },
+      );
+    }
 
     // Update chat's lastTransaction
     const latestTxn: any = await Tx.findOne({ chatId })
@@ -379,6 +723,138 @@ export const deleteTxn = TryCatch(
   },
 );
 
+// Attachments follow the edit rules: only addedBy, unverified, current month
+async function checkTxnEditable(
+  txn: ITx,
+  userId: string,
+): Promise<ErrorHandler | null> {
+  if (txn.addedBy.toString() !== userId) {
+    return new ErrorHandler("You can only edit your own transactions", 403);
+  }
+  if (txn.verified) {
+    return new ErrorHandler("Cannot edit verified transaction", 403);
+  }
+
+  const txChat = await Chat.findById(txn.chatId)
+    .select("timezone")
+    .lean<{ timezone?: string }>();
+  if (txn.date < getCurrentMonthStart(txChat?.timezone)) {
+    return new ErrorHandler(
+      "Cannot edit transactions from closed months.",
+      400,
+    );
+  }
+  return null;
+}
+
+// Get transaction attachments (signed URLs, any chat member)
+export const getTxnAttachments = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { txnId } = req.params;
+    const userId = req.user.id;
+
+    const txn = await Tx.findById(txnId)
+      .select("chatId attachments")
+      .lean<{
+        chatId: mongoose.Types.ObjectId;
+        attachments: IAttachment[];
+      }>();
+    if (!txn) {
+      return next(new ErrorHandler("Transaction not found", 404));
+    }
+
+    const isMember = await Chat.exists({ _id: txn.chatId, members: userId });
+    if (!isMember) {
+      return next(new ErrorHandler("You are not a member of this chat", 403));
+    }
+
+    return res.status(200).json({
+      success: true,
+      attachments: withSignedUrls(txn.attachments),
+    });
+  },
+);
+
+// Add attachment (receipt / document) to a transaction
+export const addTxnAttachment = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { txnId } = req.params;
+    const userId = req.user.id;
+
+    if (!req.file) {
+      return next(new ErrorHandler("Please upload a file", 400));
+    }
+
+    const txn = await Tx.findById(txnId);
+    if (!txn) {
+      return next(new ErrorHandler("Transaction not found", 404));
+    }
+
+    const denied = await checkTxnEditable(txn, userId);
+    if (denied) return next(denied);
+
+    if (txn.attachments.length >= MAX_ATTACHMENTS) {
+      return next(
+        new ErrorHandler(
+          `A transaction can have at most ${MAX_ATTACHMENTS} attachments`,
+          400,
+        ),
+      );
+    }
+
+    try {
+      const attachment = await storeAttachment(req.file, userId);
+      txn.attachments.push(attachment);
+      await txn.save();
+    } catch (error: any) {
+      return next(
+        new ErrorHandler(`Failed to upload attachment: ${error.message}`, 500),
+      );
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: "Attachment added successfully",
+      attachments: withSignedUrls(txn.attachments),
+    });
+  },
+);
+
+// Delete attachment from a transaction
+export const deleteTxnAttachment = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { txnId, attachmentId } = req.params;
+    const userId = req.user.id;
+
+    const txn = await Tx.findById(txnId);
+    if (!txn) {
+      return next(new ErrorHandler("Transaction not found", 404));
+    }
+
+    const denied = await checkTxnEditable(txn, userId);
+    if (denied) return next(denied);
+
+    const attachment = txn.attachments.find(
+      (a: IAttachment) => a._id.toString() === attachmentId,
+    );
+    if (!attachment) {
+      return next(new ErrorHandler("Attachment not found", 404));
+    }
+
+    txn.attachments = txn.attachments.filter(
+      (a: IAttachment) => a !== attachment,
+    );
+    await txn.save();
+    await deleteAttachmentFiles([attachment]);
+
+    return res.status(200).json({
+      success: true,
+      message: "Attachment deleted successfully",
+      attachments: withSignedUrls(txn.attachments),
+    });
+  },
+);
+
 // Get all transactions for a user (grouped by friends, for home screen)
 export const getAllTxnsUser = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
@@ -388,6 +864,7 @@ export const getAllTxnsUser = TryCatch(
       {
         $match: {
           $or: [{ to: userId }, { from: userId }],
+          to: { $exists: true }, // group payments aren't between two friends
         },
       },
       {
@@ -4,7 +4,30 @@ import { Request, Response, NextFunction } from "express";
 import Errorhandler from "../middlewares/Errorhandler.js";
 import sendToken from "../utils/sendtoken.js";
 import jwt from "jsonwebtoken";
-import { JWT_SECRET } from "../config/envVariables.js";
+import { JWT_SECRET, JWT_REFRESH_SECRET } from "../config/envVariables.js";
+import {
+  REFRESH_TOKEN_AUDIENCE,
+  findActiveSession,
+  hashToken,
+  revokeSession,
+} from "../services/sessionService.js";
+import { sendTwoFactorChallenge } from "../services/twoFactorService.js";
+import {
+  getOpenGroupBalances,
+  scheduleAccountDeletion,
+} from "../services/accountDeletionService.js";
+import { resolvePreferences } from "../services/preferenceService.js";
+import {
+  registerDeviceToken,
+  unregisterDeviceToken,
+} from "../services/pushService.js";
+import { deleteImageByKey, uploadFile } from "../services/storageService.js";
+
+// Progressive lockout: every MAX_FAILED_LOGINS wrong passwords lock the
+// account, and each lock lasts twice as long as the previous one
+const MAX_FAILED_LOGINS = 5;
+const BASE_LOCK_MS = 15 * 60 * 1000; // 15 minutes
+const MAX_LOCK_MS = 24 * 60 * 60 * 1000; // 24 hours
 
 // Login with mobile number + password
 export const login = TryCatch(
@@ -16,12 +39,50 @@ export const login = TryCatch(
       return next(new Errorhandler("User not found", 404));
     }
 
+    if (user.lockUntil && user.lockUntil > new Date()) {
+      const minutes = Math.ceil(
+        (user.lockUntil.getTime() - Date.now()) / (60 * 1000),
+      );
+      return next(
+        new Errorhandler(
+          `Account locked after too many failed attempts. Try again in ${minutes} minute(s)`,
+          423,
+        ),
+      );
+    }
+
     const isPasswordMatched = await user.comparePassword(password);
     if (!isPasswordMatched) {
+      user.failedLoginAttempts = (user.failedLoginAttempts || 0) + 1;
+
+      if (user.failedLoginAttempts >= MAX_FAILED_LOGINS) {
+        const lockMs = Math.min(
+          BASE_LOCK_MS * 2 ** (user.lockCount || 0),
+          MAX_LOCK_MS,
+        );
+        user.lockUntil = new Date(Date.now() + lockMs);
+        user.lockCount = (user.lockCount || 0) + 1;
+        user.failedLoginAttempts = 0;
+      }
+
+      await user.save({ validateBeforeSave: false });
       return next(new Errorhandler("Invalid credentials", 401));
     }
 
-    sendToken(res, user, 200);
+    // Successful login clears the lockout history
+    if (user.failedLoginAttempts || user.lockCount || user.lockUntil) {
+      user.failedLoginAttempts = 0;
+      user.lockCount = 0;
+      user.lockUntil = undefined;
+      await user.save({ validateBeforeSave: false });
+    }
+
+    // 2FA accounts get a short-lived challenge; tokens come from /login/2fa
+    if (user.twoFactorEnabled) {
+      return sendTwoFactorChallenge(res, user);
+    }
+
+    await sendToken(req, res, user, 200);
   },
 );
 
@@ -41,7 +102,7 @@ export const register = TryCatch(
       password,
     });
 
-    sendToken(res, user, 201);
+    await sendToken(req, res, user, 201);
   },
 );
 
@@ -60,35 +121,83 @@ export const refreshToken = TryCatch(
       return next(new Errorhandler("Refresh token required", 401));
     }
 
+    // Verify refresh token (own secret + audience, never an access token)
+    let decoded: any;
+    let isLegacy = false;
     try {
-      // Verify refresh token
-      const decoded: any = jwt.verify(refreshTokenValue, JWT_SECRET);
-
-      // Find user and check if stored refresh token matches
-      const user = await User.findById(decoded.id);
-      if (!user) {
-        return next(new Errorhandler("User not found", 404));
+      decoded = jwt.verify(refreshTokenValue, JWT_REFRESH_SECRET, {
+        audience: REFRESH_TOKEN_AUDIENCE,
+      });
+    } catch (error) {
+      // Tokens from before per-device sessions were signed with JWT_SECRET
+      try {
+        decoded = jwt.verify(refreshTokenValue, JWT_SECRET);
+        isLegacy = !decoded.aud && !decoded.sid;
+      } catch {
+        isLegacy = false;
+      }
+      if (!isLegacy) {
+        return next(new Errorhandler("Invalid or expired refresh token", 401));
       }
+    }
+
+    // Find user
+    const user = await User.findById(decoded.id);
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
 
-      if (user.refreshToken !== refreshTokenValue) {
+    // Legacy token: accept once if it still matches the single stored token,
+    // then move the device onto its own Session
+    if (isLegacy) {
+      if (!user.refreshToken || user.refreshToken !== refreshTokenValue) {
         return next(new Errorhandler("Invalid refresh token", 401));
       }
+      await User.updateOne({ _id: user._id }, { $unset: { refreshToken: "" } });
+      await sendToken(req, res, user, 200);
+      return;
+    }
 
-      // Issue new token pair
-      sendToken(res, user, 200);
-    } catch (error) {
-      return next(new Errorhandler("Invalid or expired refresh token", 401));
+    // The session is the token family — it must still be active
+    const session = await findActiveSession(decoded.sid);
+    if (!session || session.userId.toString() !== user._id.toString()) {
+      return next(
+        new Errorhandler("Session has been signed out, please login again", 401),
+      );
     }
+
+    // A valid token that is not the latest one was already rotated away:
+    // someone is replaying it, so revoke the whole family
+    if (session.refreshTokenHash !== hashToken(refreshTokenValue)) {
+      await revokeSession(
+        user._id.toString(),
+        session._id.toString(),
+        "reuse_detected",
+      );
+      console.warn(
+        `⚠️  Refresh token reuse detected for user ${user._id}, session ${session._id} revoked`,
+      );
+      return next(
+        new Errorhandler(
+          "Refresh token reuse detected, please login again",
+          401,
+        ),
+      );
+    }
+
+    // Rotate: issue a new token pair for the same device
+    await sendToken(req, res, user, 200, session);
   },
 );
 
-// Logout - clear refresh token from DB
+// Logout - revoke only this device's session
 export const logout = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
-    const userId = req.user.id;
+    const { id: userId, sessionId } = req.user;
 
-    // Nullify refresh token in DB
-    await User.findByIdAndUpdate(userId, { refreshToken: null });
+    if (sessionId) {
+      await revokeSession(userId, sessionId, "logout");
+    }
 
     res.status(200).json({
       success: true,
@@ -97,6 +206,43 @@ export const logout = TryCatch(
   },
 );
 
+// Delete my account - scheduled after a grace period, logging in cancels it
+export const requestAccountDeletion = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { password } = req.body;
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
+
+    const isMatch = await user.comparePassword(password);
+    if (!isMatch) {
+      return next(new Errorhandler("Password is incorrect", 401));
+    }
+
+    // The other members couldn't settle with a deleted account
+    const openGroups = await getOpenGroupBalances(userId);
+    if (openGroups.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: "Settle up in these groups before deleting your account",
+        groups: openGroups,
+      });
+    }
+
+    const scheduledFor = await scheduleAccountDeletion(user);
+
+    res.status(200).json({
+      success: true,
+      message:
+        "Account scheduled for deletion. Log in again before this date to cancel",
+      scheduledFor,
+    });
+  },
+);
+
 // Get user profile
 export const getUserProfile = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
@@ -121,13 +267,21 @@ export const updateProfile = TryCatch(
     const { name, avatar } = req.body;
 
     const updateData: any = {};
+    let previousKey: string | undefined;
     if (name) updateData.name = name;
-    if (avatar) updateData.avatar = avatar;
+    if (avatar) {
+      // Replaced by a URL: the file we stored goes (never the URL itself)
+      const currentUser = await User.findById(userId).select("+avatarKey");
+      previousKey = currentUser?.avatarKey;
+      updateData.avatar = avatar;
+      updateData.$unset = { avatarKey: "" };
+    }
 
     const user = await User.findByIdAndUpdate(userId, updateData, {
       new: true,
       runValidators: true,
     }).select("-password -refreshToken");
+    await deleteImageByKey(previousKey);
 
     res.status(200).json({
       success: true,
@@ -137,11 +291,57 @@ export const updateProfile = TryCatch(
   },
 );
 
-// Update push token
+// Get display preferences (currency, timezone, locale, week start, number format)
+export const getPreferences = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const user = await User.findById(userId).select("preferences").lean<any>();
+
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      preferences: resolvePreferences(user.preferences),
+    });
+  },
+);
+
+// Update preferences - only the fields sent are changed
+export const updatePreferences = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+
+    const updateData: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(req.body)) {
+      if (value !== undefined) updateData[`preferences.${key}`] = value;
+    }
+
+    const user = await User.findByIdAndUpdate(userId, updateData, {
+      new: true,
+      runValidators: true,
+    })
+      .select("preferences")
+      .lean<any>();
+
+    if (!user) {
+      return next(new Errorhandler("User not found", 404));
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Preferences updated successfully",
+      preferences: resolvePreferences(user.preferences),
+    });
+  },
+);
+
+// Register this device's push token (a user can have several devices)
 export const updatePushToken = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user.id;
-    const { pushToken } = req.body;
+    const { pushToken, platform, appVersion } = req.body;
 
     if (!pushToken) {
       return next(new Errorhandler("Push token is required", 400));
@@ -152,7 +352,13 @@ export const updatePushToken = TryCatch(
       return next(new Errorhandler("Invalid Expo push token format", 400));
     }
 
-    await User.findByIdAndUpdate(userId, { pushToken });
+    await registerDeviceToken(userId, pushToken, platform, appVersion);
+
+    // The single legacy token is superseded once the app registers devices
+    await User.updateOne(
+      { _id: userId, pushToken },
+      { $unset: { pushToken: "" } },
+    );
 
     res.status(200).json({
       success: true,
@@ -161,7 +367,28 @@ export const updatePushToken = TryCatch(
   },
 );
 
-// Upload/Update avatar image via Cloudinary
+// Unregister a device's push token (call on logout, before dropping tokens)
+export const removePushToken = TryCatch(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user.id;
+    const { pushToken } = req.body;
+
+    const removed = await unregisterDeviceToken(userId, pushToken);
+    await User.updateOne(
+      { _id: userId, pushToken },
+      { $unset: { pushToken: "" } },
+    );
+
+    res.status(200).json({
+      success: true,
+      message: removed
+        ? "Push token removed successfully"
+        : "Push token was not registered",
+    });
+  },
+);
+
+// Upload/Update avatar image (Cloudinary or local storage, see STORAGE_DRIVER)
 export const uploadAvatar = TryCatch(
   async (req: Request, res: Response, next: NextFunction) => {
     const userId = req.user.id;
@@ -172,35 +399,35 @@ export const uploadAvatar = TryCatch(
     }
 
     try {
-      // Import cloudinary service
-      const { uploadToCloudinary, deleteFromCloudinary, extractPublicId } =
-        await import("../services/cloudinaryService.js");
-
       // Get current user to check for existing avatar
-      const currentUser = await User.findById(userId).select("avatar");
-
-      // Delete old avatar from Cloudinary if it exists
-      if (currentUser?.avatar) {
-        const publicId = extractPublicId(currentUser.avatar);
-        if (publicId) {
-          await deleteFromCloudinary(publicId);
-        }
-      }
+      const currentUser = await User.findById(userId).select("+avatarKey");
 
-      // Upload new image to Cloudinary
-      const uploadResult = await uploadToCloudinary(req.file.buffer);
+      // Upload new image
+      const stored = await uploadFile(req.file.buffer, {
+        folder: "avatars",
+        contentType: req.file.mimetype,
+        resize: { width: 500, height: 500, faces: true },
+      });
 
       // Update user avatar in database
       const user = await User.findByIdAndUpdate(
         userId,
-        { avatar: uploadResult.secure_url },
+        { avatar: stored.url, avatarKey: stored.key },
         { new: true, runValidators: true },
-      ).select("-password -refreshToken");
+      )
+        .select("-password -refreshToken")
+        .catch(async (error) => {
+          await deleteImageByKey(stored.key);
+          throw error;
+        });
+
+      // Only once the user points at the new avatar
+      await deleteImageByKey(currentUser?.avatarKey);
 
       res.status(200).json({
         success: true,
         message: "Avatar uploaded successfully",
-        avatar: uploadResult.secure_url,
+        avatar: stored.url,
         user,
       });
     } catch (error: any) {
@@ -0,0 +1,62 @@
+import type { NotificationStrings } from "../services/notificationTemplateService.js";
+
+export const en: NotificationStrings = {
+  templates: {
+    friend_request: ({ senderName }) => ({
+      title: "Friend Request",
+      body: `${senderName} wants to be your friend`,
+    }),
+    friend_accepted: ({ senderName }) => ({
+      title: "Friend Request Accepted",
+      body: `${senderName} accepted your friend request`,
+    }),
+    txn_added: ({ senderName, amount, chatName }) => ({
+      title: chatName || "New Transaction",
+      body: `${amount} added by ${senderName}`,
+    }),
+    txn_verified: ({ senderName, amount }) => ({
+      title: "Transaction Verified",
+      body: `${amount} verified by ${senderName}`,
+    }),
+    pool_tx_added: ({ senderName, poolName, amount, direction }) => ({
+      title: `Pool: ${poolName}`,
+      body: `${senderName} added ${amount} (${direction})`,
+    }),
+    pool_tx_verified: ({ senderName, poolName, amount }) => ({
+      title: `Pool: ${poolName}`,
+      body: `${senderName} verified your ${amount} entry`,
+    }),
+    pool_member_added: ({ senderName, poolName }) => ({
+      title: "Pool Invite",
+      body: `${senderName} added you to ${poolName}`,
+    }),
+    pool_member_removed: ({ senderName, poolName }) => ({
+      title: "Pool Update",
+      body: `${senderName} removed you from ${poolName}`,
+    }),
+    group_member_added: ({ senderName, chatName }) => ({
+      title: "Group Invite",
+      body: `${senderName} added you to ${chatName}`,
+    }),
+    group_member_removed: ({ senderName, chatName }) => ({
+      title: "Group Update",
+      body: `${senderName} removed you from ${chatName}`,
+    }),
+  },
+  digest: {
+    title: (frequency) =>
+      frequency === "weekly" ? "Your weekly digest" : "Your daily digest",
+    items: {
+      friend_request: (count) => `${count} friend request(s)`,
+      friend_accepted: (count) => `${count} accepted friend request(s)`,
+      txn_added: (count) => `${count} new transaction(s)`,
+      txn_verified: (count) => `${count} verified transaction(s)`,
+      pool_tx_added: (count) => `${count} new pool transaction(s)`,
+      pool_tx_verified: (count) => `${count} verified pool transaction(s)`,
+      pool_member_added: (count) => `${count} pool invite(s)`,
+      pool_member_removed: (count) => `${count} pool removal(s)`,
+      group_member_added: (count) => `${count} group invite(s)`,
+      group_member_removed: (count) => `${count} group removal(s)`,
+    },
+  },
+};
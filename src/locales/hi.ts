@@ -0,0 +1,62 @@
+import type { NotificationStrings } from "../services/notificationTemplateService.js";
+
+export const hi: NotificationStrings = {
+  templates: {
+    friend_request: ({ senderName }) => ({
+      title: "मित्रता अनुरोध",
+      body: `${senderName} आपसे दोस्ती करना चाहते हैं`,
+    }),
+    friend_accepted: ({ senderName }) => ({
+      title: "मित्रता अनुरोध स्वीकार",
+      body: `${senderName} ने आपका मित्रता अनुरोध स्वीकार किया`,
+    }),
+    txn_added: ({ senderName, amount, chatName }) => ({
+      title: chatName || "नया लेन-देन",
+      body: `${senderName} ने ${amount} जोड़ा`,
+    }),
+    txn_verified: ({ senderName, amount }) => ({
+      title: "लेन-देन सत्यापित",
+      body: `${senderName} ने ${amount} सत्यापित किया`,
+    }),
+    pool_tx_added: ({ senderName, poolName, amount, direction }) => ({
+      title: `पूल: ${poolName}`,
+      body: `${senderName} ने ${amount} जोड़ा (${direction === "credit" ? "जमा" : "निकासी"})`,
+    }),
+    pool_tx_verified: ({ senderName, poolName, amount }) => ({
+      title: `पूल: ${poolName}`,
+      body: `${senderName} ने आपकी ${amount} की एंट्री सत्यापित की`,
+    }),
+    pool_member_added: ({ senderName, poolName }) => ({
+      title: "पूल आमंत्रण",
+      body: `${senderName} ने आपको ${poolName} में जोड़ा`,
+    }),
+    pool_member_removed: ({ senderName, poolName }) => ({
+      title: "पूल अपडेट",
+      body: `${senderName} ने आपको ${poolName} से हटा दिया`,
+    }),
+    group_member_added: ({ senderName, chatName }) => ({
+      title: "ग्रुप आमंत्रण",
+      body: `${senderName} ने आपको ${chatName} में जोड़ा`,
+    }),
+    group_member_removed: ({ senderName, chatName }) => ({
+      title: "ग्रुप अपडेट",
+      body: `${senderName} ने आपको ${chatName} से हटा दिया`,
+    }),
+  },
+  digest: {
+    title: (frequency) =>
+      frequency === "weekly" ? "आपका साप्ताहिक सारांश" : "आपका दैनिक सारांश",
+    items: {
+      friend_request: (count) => `${count} मित्रता अनुरोध`,
+      friend_accepted: (count) => `${count} स्वीकृत मित्रता अनुरोध`,
+      txn_added: (count) => `${count} नए लेन-देन`,
+      txn_verified: (count) => `${count} सत्यापित लेन-देन`,
+      pool_tx_added: (count) => `${count} नए पूल लेन-देन`,
+      pool_tx_verified: (count) => `${count} सत्यापित पूल लेन-देन`,
+      pool_member_added: (count) => `${count} पूल आमंत्रण`,
+      pool_member_removed: (count) => `${count} पूल से हटाए गए`,
+      group_member_added: (count) => `${count} ग्रुप आमंत्रण`,
+      group_member_removed: (count) => `${count} ग्रुप से हटाए गए`,
+    },
+  },
+};
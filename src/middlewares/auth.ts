@@ -2,17 +2,27 @@ import jwt from "jsonwebtoken";
 import ErrorHandler from "./Errorhandler.js";
 import { NextFunction, Request,Response } from "express";
 import { JWT_SECRET,adminSecretKey } from "../config/envVariables.js";
+import {
+  ACCESS_TOKEN_AUDIENCE,
+  findActiveSession,
+} from "../services/sessionService.js";
 
 // Users Authentication ----->
-const isAuthenticated = (req:Request & { user?: { id: string } }, res:Response, next:NextFunction) => {
+// Access token must belong to a live Session, so revoked devices are locked out immediately
+const isAuthenticated = async (req:Request, res:Response, next:NextFunction) => {
   const token = req.cookies["token"] || req.headers["authorization"]?.replace("Bearer ", "");
   if (!token)
     return next(new ErrorHandler("Please login to access this route", 401));
-  const user = jwt.verify(token,JWT_SECRET ) as { id: string } | null;
+  // Audience check rejects refresh tokens and pre-session (legacy) access tokens
+  const user = jwt.verify(token,JWT_SECRET, { audience: ACCESS_TOKEN_AUDIENCE }) as { id: string; sid: string } | null;
 
   if (!user) return next(new ErrorHandler("Please login ! Token Expired", 401));
-console.log(user);
-  req.user = {id:user.id};
+
+  const session = await findActiveSession(user.sid);
+  if (!session || session.userId.toString() !== user.id)
+    return next(new ErrorHandler("Session has been signed out, please login again", 401));
+
+  req.user = { id: user.id, sessionId: user.sid };
   next();
 };
 export default isAuthenticated;
@@ -0,0 +1,252 @@
+import { Request, Response, NextFunction } from "express";
+import ErrorHandler from "./Errorhandler.js";
+import {
+  RateLimitStore,
+  MongoRateLimitStore,
+  MemoryRateLimitStore,
+} from "../services/rateLimitStore.js";
+import { verifyTwoFactorChallenge } from "../services/twoFactorService.js";
+
+// Mongo in every real environment, memory when running tests
+let defaultStore: RateLimitStore =
+  process.env.NODE_ENV === "test"
+    ? new MemoryRateLimitStore()
+    : new MongoRateLimitStore();
+
+/**
+ * Swap the store used by limiters that don't pass their own (e.g. in tests)
+ */
+export const setRateLimitStore = (store: RateLimitStore) => {
+  defaultStore = store;
+};
+
+interface RateLimitOptions {
+  name: string; // prefix for the counter key, unique per limiter
+  windowMs: number;
+  max: number; // hits allowed per window
+  key: (req: Request) => string | undefined; // what to count by (IP, phone, email...)
+  message?: string;
+  store?: RateLimitStore;
+}
+
+//======= Key Extractors =======//
+
+export const byIp = (req: Request) => req.ip;
+
+// Only for routes behind isAuthenticated
+export const byUser = (req: Request) => req.user?.id;
+
+export const byBodyField = (field: string) => (req: Request) => {
+  const value = req.body?.[field];
+  return typeof value === "string" && value
+    ? value.toLowerCase().trim()
+    : undefined;
+};
+
+// Second login step: the challenge token's id (unset for invalid tokens,
+// which the controller rejects anyway)
+export const byTwoFactorChallenge = (req: Request) => {
+  const token = req.body?.challengeToken;
+  return typeof token === "string"
+    ? verifyTwoFactorChallenge(token)?.challengeId
+    : undefined;
+};
+
+//======= Middleware Factory =======//
+
+/**
+ * Fixed-window rate limiter middleware factory
+ * Usage: rateLimit({ name: "login-ip", windowMs: 15 * 60 * 1000, max: 20, key: byIp })
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const {
+    name,
+    windowMs,
+    max,
+    key,
+    message = "Too many requests, please try again later",
+  } = options;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const identifier = key(req);
+    if (!identifier) return next();
+
+    const store = options.store || defaultStore;
+    const { count, resetAt } = await store.increment(
+      `${name}:${identifier}`,
+      windowMs,
+    );
+
+    res.setHeader("RateLimit-Limit", max);
+    res.setHeader("RateLimit-Remaining", Math.max(0, max - count));
+
+    if (count > max) {
+      const retryAfter = Math.ceil((resetAt.getTime() - Date.now()) / 1000);
+      res.setHeader("Retry-After", Math.max(1, retryAfter));
+      return next(new ErrorHandler(message, 429));
+    }
+
+    next();
+  };
+};
+
+// ========================
+// Auth Limiters
+// ========================
+
+const MINUTE = 60 * 1000;
+
+export const loginLimiter = [
+  rateLimit({
+    name: "login-ip",
+    windowMs: 15 * MINUTE,
+    max: 20,
+    key: byIp,
+    message: "Too many login attempts from this device. Try again later",
+  }),
+  rateLimit({
+    name: "login-phone",
+    windowMs: 15 * MINUTE,
+    max: 10,
+    key: byBodyField("phone"),
+    message: "Too many login attempts for this number. Try again later",
+  }),
+];
+
+// Every code tried counts against its challenge, so a challenge is used up
+// after 5 attempts however many IPs they come from (it lives 5 minutes)
+export const twoFactorLoginLimiter = [
+  rateLimit({
+    name: "login-2fa-ip",
+    windowMs: 15 * MINUTE,
+    max: 20,
+    key: byIp,
+    message: "Too many login attempts from this device. Try again later",
+  }),
+  rateLimit({
+    name: "login-2fa-challenge",
+    windowMs: 5 * MINUTE,
+    max: 5,
+    key: byTwoFactorChallenge,
+    message: "Too many incorrect codes. Please login again",
+  }),
+];
+
+// Sending OTPs costs money and can be used to spam inboxes
+export const otpSendLimiter = [
+  rateLimit({
+    name: "otp-send-ip",
+    windowMs: 60 * MINUTE,
+    max: 10,
+    key: byIp,
+    message: "Too many OTP requests. Try again later",
+  }),
+  rateLimit({
+    name: "otp-send-email",
+    windowMs: 60 * MINUTE,
+    max: 5,
+    key: byBodyField("email"),
+    message: "Too many OTP requests for this email. Try again later",
+  }),
+];
+
+export const otpVerifyLimiter = [
+  rateLimit({
+    name: "otp-verify-ip",
+    windowMs: 15 * MINUTE,
+    max: 30,
+    key: byIp,
+    message: "Too many OTP attempts. Try again later",
+  }),
+  rateLimit({
+    name: "otp-verify-email",
+    windowMs: 15 * MINUTE,
+    max: 10,
+    key: byBodyField("email"),
+    message: "Too many OTP attempts for this email. Try again later",
+  }),
+];
+
+// SMS OTPs — same idea as email, counted per phone number
+export const phoneOtpSendLimiter = [
+  rateLimit({
+    name: "phone-otp-send-ip",
+    windowMs: 60 * MINUTE,
+    max: 10,
+    key: byIp,
+    message: "Too many OTP requests. Try again later",
+  }),
+  rateLimit({
+    name: "phone-otp-send-phone",
+    windowMs: 60 * MINUTE,
+    max: 5,
+    key: byBodyField("phone"),
+    message: "Too many OTP requests for this number. Try again later",
+  }),
+];
+
+export const phoneOtpVerifyLimiter = [
+  rateLimit({
+    name: "phone-otp-verify-ip",
+    windowMs: 15 * MINUTE,
+    max: 30,
+    key: byIp,
+    message: "Too many OTP attempts. Try again later",
+  }),
+  rateLimit({
+    name: "phone-otp-verify-phone",
+    windowMs: 15 * MINUTE,
+    max: 10,
+    key: byBodyField("phone"),
+    message: "Too many OTP attempts for this number. Try again later",
+  }),
+];
+
+// Verifying the signed-in user's own phone: the body carries no number,
+// so count per account
+export const accountPhoneOtpSendLimiter = [
+  rateLimit({
+    name: "account-phone-otp-send-ip",
+    windowMs: 60 * MINUTE,
+    max: 10,
+    key: byIp,
+    message: "Too many OTP requests. Try again later",
+  }),
+  rateLimit({
+    name: "account-phone-otp-send-user",
+    windowMs: 60 * MINUTE,
+    max: 5,
+    key: byUser,
+    message: "Too many OTP requests for this number. Try again later",
+  }),
+];
+
+export const accountPhoneOtpVerifyLimiter = [
+  rateLimit({
+    name: "account-phone-otp-verify-ip",
+    windowMs: 15 * MINUTE,
+    max: 30,
+    key: byIp,
+    message: "Too many OTP attempts. Try again later",
+  }),
+  rateLimit({
+    name: "account-phone-otp-verify-user",
+    windowMs: 15 * MINUTE,
+    max: 10,
+    key: byUser,
+    message: "Too many OTP attempts for this number. Try again later",
+  }),
+];
+
+// ========================
+// Expensive Jobs
+// ========================
+
+// Building a full data export is heavy — a few per user per day is plenty
+export const dataExportLimiter = rateLimit({
+  name: "data-export-user",
+  windowMs: 24 * 60 * MINUTE,
+  max: 3,
+  key: byUser,
+  message: "Too many export requests. Try again tomorrow",
+});
@@ -4,35 +4,42 @@ import ErrorHandler from "./Errorhandler.js";
 // Configure multer to store files in memory (buffer)
 const storage = multer.memoryStorage();
 
-// File filter - only allow images
-const fileFilter = (
-  req: Express.Request,
-  file: Express.Multer.File,
-  cb: multer.FileFilterCallback,
-) => {
-  const allowedMimeTypes = [
-    "image/jpeg",
-    "image/jpg",
-    "image/png",
-    "image/webp",
-  ];
+const IMAGE_MIME_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
 
-  if (allowedMimeTypes.includes(file.mimetype)) {
-    cb(null, true);
-  } else {
-    cb(
-      new ErrorHandler(
-        "Invalid file type. Only JPEG, JPG, PNG, and WebP images are allowed.",
-        400,
-      ) as any,
-    );
-  }
-};
+// File filter - only allow the given mime types
+const fileFilter =
+  (allowedMimeTypes: string[], message: string) =>
+  (
+    req: Express.Request,
+    file: Express.Multer.File,
+    cb: multer.FileFilterCallback,
+  ) => {
+    if (allowedMimeTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new ErrorHandler(message, 400));
+    }
+  };
 
 // Create multer upload instance
 export const upload = multer({
   storage,
-  fileFilter,
+  fileFilter: fileFilter(
+    IMAGE_MIME_TYPES,
+    "Invalid file type. Only JPEG, JPG, PNG, and WebP images are allowed.",
+  ),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max file size
+  },
+});
+
+// Receipts and documents: images plus PDFs
+export const attachmentUpload = multer({
+  storage,
+  fileFilter: fileFilter(
+    [...IMAGE_MIME_TYPES, "application/pdf"],
+    "Invalid file type. Only JPEG, JPG, PNG, WebP images and PDFs are allowed.",
+  ),
   limits: {
     fileSize: 5 * 1024 * 1024, // 5MB max file size
   },
@@ -1,5 +1,14 @@
 import { z } from "zod";
 import { Request, Response, NextFunction } from "express";
+import {
+  isValidCurrency,
+  isValidLocale,
+  isValidTimezone,
+} from "../services/preferenceService.js";
+import { QUIET_HOURS_PATTERN } from "../services/notificationSettingsService.js";
+import { NOTIFICATION_TYPES } from "../models/notificationModel.js";
+import { NOTIFICATION_DELIVERY_MODES } from "../models/userModel.js";
+import { SPLIT_MODES } from "../models/splitGroupModel.js";
 
 //======= Validation Schemas =======//
 
@@ -21,20 +30,95 @@ export const loginSchema = z.object({
   body: z.object({
     phone: z.string().regex(/^\+?[1-9]\d{1,14}$/, "Invalid phone number"),
     password: z.string().min(1, "Password is required"),
+    deviceName: z.string().max(100).optional(),
+    platform: z.enum(["ios", "android", "web"]).optional(),
   }),
 });
 
+// Group payments: who the payer covered and each one's share
+const txParticipantsSchema = z
+  .array(
+    z.object({
+      userId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid participant ID"),
+      amount: z.number().min(0, "Share cannot be negative"),
+    }),
+  )
+  .min(1, "At least one participant required")
+  .max(50, "Maximum 50 participants");
+
 export const addTxnSchema = z.object({
+  body: z
+    .object({
+      chatId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid chatId"),
+      amount: z.number().positive("Amount must be greater than 0"),
+      // Settlements only come from the settle-up endpoint
+      kind: z.enum(["expense", "loan", "refund"]).optional(),
+      date: z.string().datetime("Invalid date format (ISO 8601 required)"),
+      remarks: z.string().optional(),
+      to: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, "Invalid 'to' user ID")
+        .optional(),
+      from: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid 'from' user ID"),
+      participants: txParticipantsSchema.optional(),
+    })
+    .refine((body) => (body.to === undefined) !== !body.participants, {
+      message: "Provide either 'to' or 'participants'",
+      path: ["to"],
+    }),
+});
+
+export const settleChatSchema = z.object({
   body: z.object({
     chatId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid chatId"),
-    amount: z.number().positive("Amount must be greater than 0"),
+    remarks: z.string().optional(),
+  }),
+});
+
+// Bill splits: each participant's value is an amount, percentage or share
+// count depending on the mode (not needed for equal splits)
+const splitParticipantsSchema = z
+  .array(
+    z.object({
+      userId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid participant ID"),
+      value: z.number().min(0, "Value cannot be negative").optional(),
+    }),
+  )
+  .min(2, "A split needs at least 2 participants")
+  .max(50, "Maximum 50 participants");
+
+export const createSplitSchema = z.object({
+  body: z.object({
+    payer: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid payer ID")
+      .optional(), // defaults to you
+    total: z.number().positive("Total must be greater than 0"),
+    mode: z.enum(SPLIT_MODES),
+    participants: splitParticipantsSchema,
     date: z.string().datetime("Invalid date format (ISO 8601 required)"),
     remarks: z.string().optional(),
-    to: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid 'to' user ID"),
-    from: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid 'from' user ID"),
   }),
 });
 
+export const editSplitSchema = z.object({
+  body: z
+    .object({
+      total: z.number().positive("Total must be greater than 0").optional(),
+      mode: z.enum(SPLIT_MODES).optional(),
+      participants: splitParticipantsSchema.optional(),
+      date: z
+        .string()
+        .datetime("Invalid date format (ISO 8601 required)")
+        .optional(),
+      remarks: z.string().optional(),
+    })
+    .refine((body) => body.mode === undefined || !!body.participants, {
+      message: "Changing the mode needs the participants' values too",
+      path: ["participants"],
+    }),
+});
+
 export const checkContactsSchema = z.object({
   body: z.object({
     phoneNumbers: z
@@ -51,11 +135,95 @@ export const updateProfileSchema = z.object({
   }),
 });
 
+export const updatePreferencesSchema = z.object({
+  body: z
+    .object({
+      currency: z
+        .string()
+        .refine(isValidCurrency, "Invalid ISO 4217 currency code")
+        .optional(),
+      timezone: z
+        .string()
+        .refine(isValidTimezone, "Invalid IANA timezone")
+        .optional(),
+      locale: z.string().refine(isValidLocale, "Invalid locale").optional(),
+      weekStart: z.number().int().min(0).max(6).optional(),
+      numberFormat: z.enum(["locale", "indian", "international"]).optional(),
+    })
+    .strict(),
+});
+
+const deliveryModeSchema = z.enum(NOTIFICATION_DELIVERY_MODES);
+
+export const updateNotificationSettingsSchema = z.object({
+  body: z
+    .object({
+      types: z
+        .object(
+          Object.fromEntries(
+            NOTIFICATION_TYPES.map((type) => [
+              type,
+              deliveryModeSchema.optional(),
+            ]),
+          ),
+        )
+        .strict()
+        .optional(),
+      quietHours: z
+        .object({
+          enabled: z.boolean().optional(),
+          start: z
+            .string()
+            .regex(QUIET_HOURS_PATTERN, "Start must be HH:mm")
+            .optional(),
+          end: z
+            .string()
+            .regex(QUIET_HOURS_PATTERN, "End must be HH:mm")
+            .optional(),
+        })
+        .strict()
+        .optional(),
+      digest: z
+        .object({
+          frequency: z.enum(["daily", "weekly"]).optional(),
+          hour: z.number().int().min(0).max(23).optional(),
+        })
+        .strict()
+        .optional(),
+      weeklyEmail: z
+        .object({
+          enabled: z.boolean(),
+        })
+        .strict()
+        .optional(),
+    })
+    .strict(),
+});
+
+export const muteNotificationsSchema = z.object({
+  body: z.object({
+    targetType: z.enum(["chat", "pool"]),
+    targetId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid targetId"),
+    until: z
+      .string()
+      .datetime("Invalid date format (ISO 8601 required)")
+      .optional(),
+  }),
+});
+
 export const updatePushTokenSchema = z.object({
   body: z.object({
     pushToken: z
       .string()
       .startsWith("ExponentPushToken[", "Invalid Expo push token format"),
+    platform: z.enum(["ios", "android", "web"]).optional(),
+    appVersion: z.string().max(50).optional(),
+  }),
+});
+
+export const removePushTokenSchema = z.object({
+  body: z.object({
+    pushToken: z.string().min(1, "Push token is required"),
   }),
 });
 
@@ -80,6 +248,54 @@ export const resetPasswordSchema = z.object({
   }),
 });
 
+export const sendPhoneOtpSchema = z.object({
+  body: z.object({
+    phone: z.string().regex(/^\+?[1-9]\d{1,14}$/, "Invalid phone number"),
+  }),
+});
+
+export const verifyPhoneOtpSchema = z.object({
+  body: z.object({
+    phone: z.string().regex(/^\+?[1-9]\d{1,14}$/, "Invalid phone number"),
+    otp: z.string().length(6, "OTP must be 6 digits"),
+    deviceName: z.string().max(100).optional(),
+    platform: z.enum(["ios", "android", "web"]).optional(),
+  }),
+});
+
+export const verifyPhoneSchema = z.object({
+  body: z.object({
+    otp: z.string().length(6, "OTP must be 6 digits"),
+  }),
+});
+
+export const twoFactorCodeSchema = z.object({
+  body: z.object({
+    code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+  }),
+});
+
+export const twoFactorLoginSchema = z.object({
+  body: z.object({
+    challengeToken: z.string().min(1, "Challenge token is required"),
+    code: z.string().min(6, "Code is required").max(20),
+    deviceName: z.string().max(100).optional(),
+    platform: z.enum(["ios", "android", "web"]).optional(),
+  }),
+});
+
+export const disableTwoFactorSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, "Password is required"),
+  }),
+});
+
+export const deleteAccountSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, "Password is required"),
+  }),
+});
+
 export const changePasswordSchema = z.object({
   body: z.object({
     oldPassword: z.string().min(1, "Old password is required"),
@@ -168,3 +384,32 @@ export const poolMemberSchema = z.object({
     userId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid userId"),
   }),
 });
+
+// ========================
+// Group Chat Validation Schemas
+// ========================
+
+export const createGroupChatSchema = z.object({
+  body: z.object({
+    name: z.string().min(1, "Group name is required").max(100).trim(),
+    members: z
+      .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid member ID"))
+      .min(2, "A group needs at least 2 friends")
+      .max(50, "Maximum 50 members"),
+  }),
+});
+
+export const renameGroupChatSchema = z.object({
+  body: z.object({
+    name: z.string().min(1, "Group name is required").max(100).trim(),
+  }),
+});
+
+export const groupMembersSchema = z.object({
+  body: z.object({
+    userIds: z
+      .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid userId"))
+      .min(1, "At least one member required")
+      .max(50, "Maximum 50 members"),
+  }),
+});
@@ -0,0 +1,50 @@
+import mongoose, { Schema } from "mongoose";
+import type { StorageVisibility } from "../services/storageService.js";
+
+// Receipt / document stored privately and embedded on Tx, PoolTx and Expense
+export interface IAttachment {
+  _id: mongoose.Types.ObjectId;
+  key: string; // storage key, served through signed URLs only
+  name: string; // original file name, for display
+  contentType: string;
+  size: number;
+  visibility: StorageVisibility;
+  uploadedBy: mongoose.Types.ObjectId;
+  uploadedAt: Date;
+}
+
+export const MAX_ATTACHMENTS = 5; // per record
+
+export const attachmentSchema = new Schema<IAttachment>({
+  key: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+    trim: true,
+    required: true,
+  },
+  contentType: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  visibility: {
+    type: String,
+    enum: ["public", "private"],
+    default: "private",
+  },
+  uploadedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
@@ -1,15 +1,26 @@
 import mongoose, { Schema, model, Types, Document } from "mongoose";
 
 export interface IChat extends Document {
-  name?: string;
+  name?: string; // group chats only
   groupChat: boolean;
-  creator?: mongoose.Types.ObjectId;
+  creator?: mongoose.Types.ObjectId; // group chats: manages name and members
   members: mongoose.Types.ObjectId[];
+  timezone?: string; // IANA zone for month boundaries, fixed when the chat is created
   lastTransaction?: {
     amount: number;
     date: Date;
     remark: string;
   };
+  // Latest settlement that brought the balance to zero (1:1 chats), set
+  // once the other member verifies it
+  settledUp?: {
+    at: Date;
+    txnId: mongoose.Types.ObjectId;
+  };
+  settleLockedUntil?: Date; // a settlement is being recorded (lease)
+  // Running balance per member (positive = the others owe them), kept by
+  // summaryService
+  balances: Map<string, number>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -18,6 +29,7 @@ const schema = new Schema<IChat>(
   {
     name: {
       type: String,
+      trim: true,
       required: false,
     },
     groupChat: {
@@ -34,11 +46,26 @@ const schema = new Schema<IChat>(
         ref: "User",
       },
     ],
+    timezone: {
+      type: String,
+    },
     lastTransaction: {
       amount: Number,
       date: Date,
       remark: String,
     },
+    settledUp: {
+      at: Date,
+      txnId: { type: Types.ObjectId, ref: "Tx" },
+    },
+    settleLockedUntil: {
+      type: Date,
+    },
+    balances: {
+      type: Map,
+      of: Number,
+      default: {},
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// A "download my data" request. Built in the background; the ZIP is kept on
+// disk until expiresAt, after which the cleanup sweep deletes file + record.
+export interface IDataExport extends Document {
+  userId: mongoose.Types.ObjectId;
+  status: "pending" | "processing" | "ready" | "failed";
+  filePath?: string;
+  fileSize?: number; // bytes
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt?: Date; // download link valid until (set once ready)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dataExportSchema = new Schema<IDataExport>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "processing", "ready", "failed"],
+      default: "pending",
+      index: true, // For the worker picking up pending exports
+    },
+    filePath: {
+      type: String,
+    },
+    fileSize: {
+      type: Number,
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      index: { sparse: true }, // For the cleanup sweep
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+// For a user's export history (latest first)
+dataExportSchema.index({ userId: 1, createdAt: -1 });
+
+export const DataExport =
+  mongoose.models.DataExport ||
+  mongoose.model<IDataExport>("DataExport", dataExportSchema);
@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// One Expo push token per installed app — a user can have several devices
+export interface IDeviceToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  token: string; // ExponentPushToken[...]
+  platform: "ios" | "android" | "web" | "unknown";
+  appVersion?: string;
+  lastSeenAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const deviceTokenSchema = new Schema<IDeviceToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true, // For fan-out to all of a user's devices
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true, // A device belongs to whoever registered it last
+    },
+    platform: {
+      type: String,
+      enum: ["ios", "android", "web", "unknown"],
+      default: "unknown",
+    },
+    appVersion: {
+      type: String,
+      trim: true,
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+export const DeviceToken =
+  mongoose.models.DeviceToken ||
+  mongoose.model<IDeviceToken>("DeviceToken", deviceTokenSchema);
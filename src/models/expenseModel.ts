@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { attachmentSchema, IAttachment } from "./attachmentSchema.js";
 
 export interface IExpense extends Document {
   userId: mongoose.Types.ObjectId;
@@ -8,6 +9,7 @@ export interface IExpense extends Document {
   date: Date;
   remarks?: string;
   category?: string;
+  attachments: IAttachment[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -50,6 +52,10 @@ const expenseSchema = new Schema<IExpense>(
       type: String,
       trim: true,
     },
+    attachments: {
+      type: [attachmentSchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -1,19 +1,40 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+export const NOTIFICATION_TYPES = [
+  "friend_request",
+  "friend_accepted",
+  "txn_added",
+  "txn_verified",
+  "pool_tx_added",
+  "pool_tx_verified",
+  "pool_member_added",
+  "pool_member_removed",
+  "group_member_added",
+  "group_member_removed",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
 export interface INotification extends Document {
   recipient: mongoose.Types.ObjectId;
   sender: mongoose.Types.ObjectId;
-  type:
-    | "friend_request"
-    | "friend_accepted"
-    | "txn_added"
-    | "txn_verified"
-    | "pool_tx_added"
-    | "pool_tx_verified"
-    | "pool_member_added"
-    | "pool_member_removed";
+  type: NotificationType;
+  title?: string;
+  body?: string;
   data?: Record<string, any>;
   read: boolean;
+  // Push delivery, driven by the outbox worker. "in_app" = push turned off or
+  // muted by the recipient, "digest" = waiting for the recipient's digest
+  deliveryStatus:
+    | "pending"
+    | "sent"
+    | "no_device"
+    | "failed"
+    | "in_app"
+    | "digest";
+  deliveryAttempts: number;
+  deliveredAt?: Date;
+  lastDeliveryError?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,18 +54,15 @@ const notificationSchema = new Schema<INotification>(
     },
     type: {
       type: String,
-      enum: [
-        "friend_request",
-        "friend_accepted",
-        "txn_added",
-        "txn_verified",
-        "pool_tx_added",
-        "pool_tx_verified",
-        "pool_member_added",
-        "pool_member_removed",
-      ],
+      enum: NOTIFICATION_TYPES,
       required: true,
     },
+    title: {
+      type: String,
+    },
+    body: {
+      type: String,
+    },
     data: {
       type: Schema.Types.Mixed,
     },
@@ -53,6 +71,21 @@ const notificationSchema = new Schema<INotification>(
       default: false,
       index: true,
     },
+    deliveryStatus: {
+      type: String,
+      enum: ["pending", "sent", "no_device", "failed", "in_app", "digest"],
+      default: "pending",
+    },
+    deliveryAttempts: {
+      type: Number,
+      default: 0,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+    lastDeliveryError: {
+      type: String,
+    },
   },
   {
     timestamps: true,
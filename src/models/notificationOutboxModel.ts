@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// A push waiting to be delivered. Controllers only write here (fast); the
+// outbox worker sends, retries with exponential backoff and dead-letters.
+export interface INotificationOutbox extends Document {
+  notificationId: mongoose.Types.ObjectId;
+  batchedNotificationIds: mongoose.Types.ObjectId[]; // a digest push covers several inbox records
+  recipient: mongoose.Types.ObjectId;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  status: "pending" | "processing" | "sent" | "dead";
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date; // worker lease — expired leases are picked up again
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationOutboxSchema = new Schema<INotificationOutbox>(
+  {
+    notificationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Notification",
+      required: true,
+    },
+    batchedNotificationIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Notification",
+      },
+    ],
+    recipient: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    body: {
+      type: String,
+      default: "",
+    },
+    data: {
+      type: Schema.Types.Mixed,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "processing", "sent", "dead"],
+      default: "pending",
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+// For the worker: due entries, oldest first
+notificationOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+
+// TTL: delivered entries are only kept a week (dead letters stay for inspection)
+notificationOutboxSchema.index(
+  { updatedAt: 1 },
+  {
+    expireAfterSeconds: 7 * 24 * 60 * 60,
+    partialFilterExpression: { status: "sent" },
+  },
+);
+
+export const NotificationOutbox =
+  mongoose.models.NotificationOutbox ||
+  mongoose.model<INotificationOutbox>(
+    "NotificationOutbox",
+    notificationOutboxSchema,
+  );
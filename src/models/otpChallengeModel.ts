@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type OtpPurpose =
+  | "register"
+  | "reset"
+  | "verify-email"
+  | "verify-phone"
+  | "change-phone"
+  | "login";
+
+// One pending OTP per purpose + target (email or phone)
+export interface IOtpChallenge extends Document {
+  purpose: OtpPurpose;
+  target: string; // normalised email or phone the code was sent to
+  userId?: mongoose.Types.ObjectId; // set when the challenge belongs to an existing account
+  codeHash: string; // bcrypt-hashed OTP
+  attempts: number; // wrong guesses so far
+  verifiedAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const otpChallengeSchema = new Schema<IOtpChallenge>(
+  {
+    purpose: {
+      type: String,
+      enum: [
+        "register",
+        "reset",
+        "verify-email",
+        "verify-phone",
+        "change-phone",
+        "login",
+      ],
+      required: true,
+    },
+    target: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    codeHash: {
+      type: String,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    verifiedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+// Sending a new OTP replaces the previous one for the same purpose + target
+otpChallengeSchema.index({ purpose: 1, target: 1 }, { unique: true });
+
+// TTL: Mongo removes challenges once they expire
+otpChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OtpChallenge =
+  mongoose.models.OtpChallenge ||
+  mongoose.model<IOtpChallenge>("OtpChallenge", otpChallengeSchema);
@@ -3,11 +3,13 @@ import mongoose, { Schema, model, Types, Document } from "mongoose";
 export interface IPool extends Document {
   name: string;
   description?: string;
-  image?: string; // Cloudinary URL
+  image?: string; // uploaded via POST /pools/:poolId/image (or any URL)
+  imageKey?: string; // storage key of an uploaded `image` (what gets deleted)
   rules?: string;
   admin: mongoose.Types.ObjectId;
   members: mongoose.Types.ObjectId[];
   status: "active" | "closed";
+  timezone?: string; // IANA zone for month boundaries, fixed when the pool is created
   lastTransaction?: {
     amount: number;
     date: Date;
@@ -34,6 +36,10 @@ const poolSchema = new Schema<IPool>(
     image: {
       type: String,
     },
+    imageKey: {
+      type: String,
+      select: false,
+    },
     rules: {
       type: String,
       maxlength: 1000,
@@ -55,6 +61,9 @@ const poolSchema = new Schema<IPool>(
       default: "active",
       index: true,
     },
+    timezone: {
+      type: String,
+    },
     lastTransaction: {
       amount: Number,
       date: Date,
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { attachmentSchema, IAttachment } from "./attachmentSchema.js";
 
 export interface IPoolTx extends Document {
   poolId: mongoose.Types.ObjectId;
@@ -10,6 +11,7 @@ export interface IPoolTx extends Document {
   verified: boolean;
   verifiedBy?: mongoose.Types.ObjectId;
   verifiedAt?: Date;
+  attachments: IAttachment[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -60,6 +62,10 @@ const poolTxSchema = new Schema<IPoolTx>(
     verifiedAt: {
       type: Date,
     },
+    attachments: {
+      type: [attachmentSchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
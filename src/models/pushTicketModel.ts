@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Expo push ticket awaiting its receipt. Receipts are only available after
+// delivery is attempted, so the receipt job checks these a while later.
+export interface IPushTicket extends Document {
+  ticketId: string; // Expo receipt id
+  token: string;
+  userId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pushTicketSchema = new Schema<IPushTicket>(
+  {
+    ticketId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    token: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+// TTL: Expo keeps receipts for ~24h, after that there is nothing to check
+pushTicketSchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const PushTicket =
+  mongoose.models.PushTicket ||
+  mongoose.model<IPushTicket>("PushTicket", pushTicketSchema);
@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Fixed-window hit counter, shared by every API instance
+export interface IRateLimit extends Document {
+  key: string; // "<limiter name>:<ip | identifier>"
+  count: number;
+  expiresAt: Date; // end of the current window
+}
+
+const rateLimitSchema = new Schema<IRateLimit>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    count: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+  },
+);
+
+// TTL: expired windows are cleaned up by Mongo
+rateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimit =
+  mongoose.models.RateLimit ||
+  mongoose.model<IRateLimit>("RateLimit", rateLimitSchema);
@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// One document per signed-in device. Each session is also a refresh-token
+// family: every refresh rotates the token, and replaying an old one revokes it.
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  deviceName: string;
+  platform: "ios" | "android" | "web" | "unknown";
+  ip?: string;
+  userAgent?: string;
+  refreshTokenHash: string; // sha256 of the current refresh token
+  rotationCount: number;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: "logout" | "revoked" | "reuse_detected";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    deviceName: {
+      type: String,
+      trim: true,
+      default: "Unknown device",
+    },
+    platform: {
+      type: String,
+      enum: ["ios", "android", "web", "unknown"],
+      default: "unknown",
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+    },
+    rotationCount: {
+      type: Number,
+      default: 0,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: ["logout", "revoked", "reuse_detected"],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+// For listing a user's active sessions (most recently used first)
+sessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 });
+
+// TTL: Mongo removes sessions once their refresh token can no longer be used
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session =
+  mongoose.models.Session ||
+  mongoose.model<ISession>("Session", sessionSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const SPLIT_MODES = ["equal", "exact", "percentage", "shares"] as const;
+
+export type SplitMode = (typeof SPLIT_MODES)[number];
+
+export interface ISplitParticipant {
+  user: mongoose.Types.ObjectId;
+  value?: number; // as entered: exact amount, percentage or share count
+  amount: number; // what this participant's part came to
+}
+
+/**
+ * One bill paid by `payer` and split between participants. Each participant
+ * other than the payer gets a Tx (payer → participant) in their 1:1 chat,
+ * linked back here through Tx.splitGroupId.
+ */
+export interface ISplitGroup extends Document {
+  payer: mongoose.Types.ObjectId;
+  total: number;
+  mode: SplitMode;
+  participants: ISplitParticipant[];
+  date: Date;
+  remarks?: string;
+  addedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const splitGroupSchema = new Schema<ISplitGroup>(
+  {
+    payer: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    total: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    mode: {
+      type: String,
+      enum: SPLIT_MODES,
+      required: true,
+    },
+    participants: [
+      {
+        _id: false,
+        user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        value: { type: Number },
+        amount: { type: Number, required: true, min: 0 },
+      },
+    ],
+    date: {
+      type: Date,
+      required: true,
+    },
+    remarks: {
+      type: String,
+      trim: true,
+    },
+    addedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  },
+);
+
+export const SplitGroup =
+  mongoose.models.SplitGroup ||
+  mongoose.model<ISplitGroup>("SplitGroup", splitGroupSchema);
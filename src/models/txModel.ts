@@ -1,16 +1,33 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { attachmentSchema, IAttachment } from "./attachmentSchema.js";
+
+// What a payment was for. Settlements come only from POST /txns/settle and
+// clear the chat's outstanding balance.
+export const TX_KINDS = ["expense", "loan", "settlement", "refund"] as const;
+
+export type TxKind = (typeof TX_KINDS)[number];
+
+// Group chats: one payer covering several members, each with their share
+export interface ITxParticipant {
+  user: mongoose.Types.ObjectId;
+  amount: number;
+}
 
 export interface ITx extends Document {
   chatId: mongoose.Types.ObjectId;
   amount: number;
+  kind: TxKind;
   date: Date;
   remarks?: string;
-  to: mongoose.Types.ObjectId;
+  to?: mongoose.Types.ObjectId; // unset for group payments (see participants)
+  participants?: ITxParticipant[];
+  splitGroupId?: mongoose.Types.ObjectId; // part of a split bill (see SplitGroup)
   from: mongoose.Types.ObjectId;
   addedBy: mongoose.Types.ObjectId;
   verified: boolean;
   verifiedBy?: mongoose.Types.ObjectId;
   verifiedAt?: Date;
+  attachments: IAttachment[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -28,6 +45,11 @@ const txSchema = new Schema<ITx>(
       required: true,
       min: 0,
     },
+    kind: {
+      type: String,
+      enum: TX_KINDS,
+      default: "expense",
+    },
     date: {
       type: Date,
       required: true,
@@ -40,7 +62,24 @@ const txSchema = new Schema<ITx>(
     to: {
       type: Schema.Types.ObjectId,
       ref: "User",
-      required: true,
+      required: function (this: ITx) {
+        return !this.participants?.length;
+      },
+      index: true,
+    },
+    participants: {
+      type: [
+        {
+          _id: false,
+          user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+          amount: { type: Number, required: true, min: 0 },
+        },
+      ],
+      default: undefined, // only group payments have participants
+    },
+    splitGroupId: {
+      type: Schema.Types.ObjectId,
+      ref: "SplitGroup",
       index: true,
     },
     from: {
@@ -67,6 +106,10 @@ const txSchema = new Schema<ITx>(
     verifiedAt: {
       type: Date,
     },
+    attachments: {
+      type: [attachmentSchema],
+      default: [],
+    },
   },
   {
     timestamps: true,
@@ -79,5 +122,6 @@ txSchema.index({ chatId: 1, date: -1 }); // For pagination in chat view (most im
 txSchema.index({ chatId: 1, verified: 1 }); // For filtering unverified txns
 txSchema.index({ addedBy: 1, verified: 1 }); // For edit/delete guards
 txSchema.index({ from: 1, to: 1, date: -1 }); // For per-friend reports
+txSchema.index({ "participants.user": 1, date: -1 }); // Group payments per member
 
 export const Tx = mongoose.models.Tx || mongoose.model<ITx>("Tx", txSchema);
@@ -1,21 +1,88 @@
 import mongoose, { Document, Schema } from "mongoose";
 import { hash, compare } from "bcrypt";
+import { DEFAULT_TIMEZONE } from "../utils/period.js";
+import {
+  NOTIFICATION_TYPES,
+  NotificationType,
+} from "./notificationModel.js";
+
+// Display / locale settings, used by notifications, exports and month boundaries
+export interface IUserPreferences {
+  currency: string; // ISO 4217 code, e.g. "INR"
+  timezone: string; // IANA zone, e.g. "Asia/Kolkata"
+  locale: string; // BCP 47 tag, e.g. "en-IN"
+  weekStart: number; // 0 = Sunday ... 6 = Saturday
+  numberFormat: "locale" | "indian" | "international"; // digit grouping
+}
+
+// How each notification type reaches the user:
+// push + inbox, inbox only, inbox + daily digest, or not at all
+export const NOTIFICATION_DELIVERY_MODES = [
+  "push",
+  "in_app",
+  "digest",
+  "off",
+] as const;
+
+export type NotificationDeliveryMode =
+  (typeof NOTIFICATION_DELIVERY_MODES)[number];
+
+export interface INotificationMute {
+  targetType: "chat" | "pool";
+  targetId: mongoose.Types.ObjectId;
+  until?: Date; // muted forever when unset
+}
+
+export interface INotificationSettings {
+  types: Record<NotificationType, NotificationDeliveryMode>;
+  mutes: INotificationMute[];
+  // Pushes inside this window (wall clock in preferences.timezone) are
+  // deferred to its end; the window may wrap midnight, e.g. 22:00-07:00
+  quietHours: {
+    enabled: boolean;
+    start: string; // "HH:mm"
+    end: string; // "HH:mm"
+  };
+  // "digest" types are batched into one push per day/week, sent at `hour`
+  // (local time; weekly digests go out on preferences.weekStart)
+  digest: {
+    frequency: "daily" | "weekly";
+    hour: number; // 0-23
+    lastSentAt?: Date;
+  };
+  // Opt-in weekly summary email (needs a verified email)
+  weeklyEmail: {
+    enabled: boolean;
+    lastSentAt?: Date;
+  };
+}
 
 // TypeScript interface for User document
 export interface IUser extends Document {
   name: string;
   phone: string; // PRIMARY LOGIN IDENTIFIER (mobile number)
+  phoneVerified: boolean;
   password: string;
   email?: string;
   emailVerified: boolean;
-  otp?: string; // bcrypt-hashed OTP
-  otpExpiry?: Date;
+  failedLoginAttempts: number;
+  lockCount: number; // how many times the account was locked (lockout grows each time)
+  lockUntil?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string; // base32 TOTP secret (select: false)
+  twoFactorPendingSecret?: string; // set during enrollment until confirmed
+  twoFactorBackupCodes: string[]; // bcrypt-hashed one-time codes (select: false)
+  twoFactorLastStep?: number; // last accepted TOTP time step (replay protection)
+  deletionScheduledFor?: Date; // self-service deletion pending (cancelled by logging in)
+  deletedAt?: Date; // set on the anonymised tombstone left after deletion
   avatar?: string;
+  avatarKey?: string; // storage key of an uploaded avatar (select: false)
+  preferences: IUserPreferences;
+  notificationSettings: INotificationSettings;
   friends: mongoose.Types.ObjectId[];
-  pushToken?: string;
+  pushToken?: string; // legacy single token — devices now live in DeviceToken
   refreshToken?: string;
   comparePassword(candidatePassword: string): Promise<boolean>;
-  compareOtp(candidateOtp: string): Promise<boolean>;
 }
 
 const userSchema = new Schema<IUser>({
@@ -29,6 +96,10 @@ const userSchema = new Schema<IUser>({
     unique: true,
     index: true, // For fast searches by phone
   },
+  phoneVerified: {
+    type: Boolean,
+    default: false,
+  },
   password: {
     type: String,
     required: true,
@@ -37,12 +108,76 @@ const userSchema = new Schema<IUser>({
     type: String,
     default: "",
   },
+  avatarKey: {
+    type: String,
+    select: false,
+  },
   friends: [
     {
       type: Schema.Types.ObjectId,
       ref: "User",
     },
   ],
+  preferences: {
+    currency: {
+      type: String,
+      default: "INR",
+      uppercase: true,
+    },
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+    },
+    locale: {
+      type: String,
+      default: "en-IN",
+    },
+    weekStart: {
+      type: Number,
+      default: 1, // Monday
+      min: 0,
+      max: 6,
+    },
+    numberFormat: {
+      type: String,
+      enum: ["locale", "indian", "international"],
+      default: "locale",
+    },
+  },
+  notificationSettings: {
+    types: Object.fromEntries(
+      NOTIFICATION_TYPES.map((type) => [
+        type,
+        { type: String, enum: NOTIFICATION_DELIVERY_MODES, default: "push" },
+      ]),
+    ),
+    mutes: [
+      {
+        _id: false,
+        targetType: { type: String, enum: ["chat", "pool"], required: true },
+        targetId: { type: Schema.Types.ObjectId, required: true },
+        until: { type: Date },
+      },
+    ],
+    quietHours: {
+      enabled: { type: Boolean, default: false },
+      start: { type: String, default: "22:00" },
+      end: { type: String, default: "07:00" },
+    },
+    digest: {
+      frequency: {
+        type: String,
+        enum: ["daily", "weekly"],
+        default: "daily",
+      },
+      hour: { type: Number, default: 19, min: 0, max: 23 },
+      lastSentAt: { type: Date },
+    },
+    weeklyEmail: {
+      enabled: { type: Boolean, default: false },
+      lastSentAt: { type: Date },
+    },
+  },
   email: {
     type: String,
     unique: true,
@@ -54,10 +189,44 @@ const userSchema = new Schema<IUser>({
     type: Boolean,
     default: false,
   },
-  otp: {
-    type: String, // stored as bcrypt hash
+  failedLoginAttempts: {
+    type: Number,
+    default: 0,
+  },
+  lockCount: {
+    type: Number,
+    default: 0,
+  },
+  lockUntil: {
+    type: Date,
+  },
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false,
+  },
+  // 2FA secrets are never returned unless explicitly selected with "+field"
+  twoFactorSecret: {
+    type: String,
+    select: false,
+  },
+  twoFactorPendingSecret: {
+    type: String,
+    select: false,
+  },
+  twoFactorBackupCodes: {
+    type: [String],
+    select: false,
+    default: [],
+  },
+  twoFactorLastStep: {
+    type: Number,
+    select: false,
   },
-  otpExpiry: {
+  deletionScheduledFor: {
+    type: Date,
+    index: { sparse: true }, // For the scheduled deletion sweep
+  },
+  deletedAt: {
     type: Date,
   },
   pushToken: {
@@ -83,13 +252,5 @@ userSchema.methods.comparePassword = async function (
   return compare(candidatePassword, this.password);
 };
 
-// Instance method for OTP comparison
-userSchema.methods.compareOtp = async function (
-  candidateOtp: string,
-): Promise<boolean> {
-  if (!this.otp) return false;
-  return compare(candidateOtp, this.otp);
-};
-
 export const User =
   mongoose.models.User || mongoose.model<IUser>("User", userSchema);
@@ -14,6 +14,8 @@ import {
   getAdminPoolDetail,
   sendBulkNotification,
   sendTargetedNotification,
+  getOutboxStats,
+  retryDeadOutbox,
 } from "../controllers/adminController.js";
 
 const router = express.Router();
@@ -42,5 +44,7 @@ router.get("/pools/:id", adminOnly, getAdminPoolDetail);
 // Notifications
 router.post("/notifications/bulk", adminOnly, sendBulkNotification);
 router.post("/notifications/targeted", adminOnly, sendTargetedNotification);
+router.get("/notifications/outbox", adminOnly, getOutboxStats);
+router.post("/notifications/outbox/retry", adminOnly, retryDeadOutbox);
 
 export default router;
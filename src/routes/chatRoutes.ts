@@ -1,10 +1,46 @@
 import express from "express";
-import { getUserChats, getChatById } from "../controllers/chatController.js";
+import {
+  getUserChats,
+  getChatById,
+  createGroupChat,
+  renameGroupChat,
+  addGroupMembers,
+  removeGroupMember,
+  leaveGroupChat,
+} from "../controllers/chatController.js";
 import isAuthenticated from "../middlewares/auth.js";
+import {
+  validate,
+  createGroupChatSchema,
+  renameGroupChatSchema,
+  groupMembersSchema,
+} from "../middlewares/validation.js";
 
 const router = express.Router();
 
 router.get("/", isAuthenticated, getUserChats);
 router.get("/:chatId", isAuthenticated, getChatById);
 
+// Group chats
+router.post(
+  "/group",
+  isAuthenticated,
+  validate(createGroupChatSchema),
+  createGroupChat,
+);
+router.put(
+  "/:chatId/name",
+  isAuthenticated,
+  validate(renameGroupChatSchema),
+  renameGroupChat,
+);
+router.post(
+  "/:chatId/members",
+  isAuthenticated,
+  validate(groupMembersSchema),
+  addGroupMembers,
+);
+router.delete("/:chatId/members/:userId", isAuthenticated, removeGroupMember);
+router.post("/:chatId/leave", isAuthenticated, leaveGroupChat);
+
 export default router;
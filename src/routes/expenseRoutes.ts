@@ -10,8 +10,12 @@ import {
   checkDuplicate,
   closeLedger,
   exportPDF,
+  getExpenseAttachments,
+  addExpenseAttachment,
+  deleteExpenseAttachment,
 } from "../controllers/expenseController.js";
 import isAuthenticated from "../middlewares/auth.js";
+import { attachmentUpload } from "../middlewares/upload.js";
 
 const router = express.Router();
 
@@ -21,6 +25,20 @@ router.get("/", isAuthenticated, getExpenses);
 router.put("/:id", isAuthenticated, editExpense);
 router.delete("/:id", isAuthenticated, deleteExpense);
 
+// Attachments (receipts / documents)
+router.get("/:id/attachments", isAuthenticated, getExpenseAttachments);
+router.post(
+  "/:id/attachments",
+  isAuthenticated,
+  attachmentUpload.single("file"),
+  addExpenseAttachment,
+);
+router.delete(
+  "/:id/attachments/:attachmentId",
+  isAuthenticated,
+  deleteExpenseAttachment,
+);
+
 // Duplicate Check
 router.get("/check-duplicate", isAuthenticated, checkDuplicate);
 
@@ -0,0 +1,9 @@
+import express from "express";
+import { serveFile } from "../controllers/fileController.js";
+
+const router = express.Router();
+
+// Locally stored uploads - public, or authorised by a signed ?token= link
+router.get("/*key", serveFile);
+
+export default router;
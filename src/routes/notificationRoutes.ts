@@ -0,0 +1,42 @@
+import express from "express";
+import {
+  getNotifications,
+  getUnreadCount,
+  markAsRead,
+  markAllAsRead,
+  deleteNotification,
+  getNotificationSettings,
+  updateNotificationSettings,
+  muteTarget,
+  unmuteTarget,
+} from "../controllers/notificationController.js";
+import isAuthenticated from "../middlewares/auth.js";
+import {
+  validate,
+  updateNotificationSettingsSchema,
+  muteNotificationsSchema,
+} from "../middlewares/validation.js";
+
+const router = express.Router();
+
+router.get("/", isAuthenticated, getNotifications); // cursor + unread in query
+router.get("/unread-count", isAuthenticated, getUnreadCount);
+router.put("/read-all", isAuthenticated, markAllAsRead);
+router.get("/settings", isAuthenticated, getNotificationSettings);
+router.put(
+  "/settings",
+  isAuthenticated,
+  validate(updateNotificationSettingsSchema),
+  updateNotificationSettings,
+);
+router.post(
+  "/mutes",
+  isAuthenticated,
+  validate(muteNotificationsSchema),
+  muteTarget,
+);
+router.delete("/mutes/:targetId", isAuthenticated, unmuteTarget);
+router.put("/:id/read", isAuthenticated, markAsRead);
+router.delete("/:id", isAuthenticated, deleteNotification);
+
+export default router;
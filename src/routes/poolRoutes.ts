@@ -24,7 +24,13 @@ import {
   deletePoolTx,
   verifyPoolTx,
   getPoolStats,
+  uploadPoolImage,
+  deletePoolImage,
+  getPoolTxAttachments,
+  addPoolTxAttachment,
+  deletePoolTxAttachment,
 } from "../controllers/poolController.js";
+import { attachmentUpload, upload } from "../middlewares/upload.js";
 
 const router = express.Router();
 
@@ -36,6 +42,13 @@ router.get("/my", isAuthenticated, getMyPools);
 router.get("/:poolId", isAuthenticated, getPoolById);
 router.put("/:poolId", isAuthenticated, validate(updatePoolSchema), updatePool);
 router.delete("/:poolId", isAuthenticated, deletePool);
+router.post(
+  "/:poolId/image",
+  isAuthenticated,
+  upload.single("image"),
+  uploadPoolImage,
+);
+router.delete("/:poolId/image", isAuthenticated, deletePoolImage);
 
 // ========================
 // Membership
@@ -73,6 +86,18 @@ router.get("/tx/:poolId", isAuthenticated, getPoolTxns);
 router.put("/tx/:txnId", isAuthenticated, editPoolTx);
 router.delete("/tx/:txnId", isAuthenticated, deletePoolTx);
 router.post("/tx/verify", isAuthenticated, verifyPoolTx);
+router.get("/tx/:txnId/attachments", isAuthenticated, getPoolTxAttachments);
+router.post(
+  "/tx/:txnId/attachments",
+  isAuthenticated,
+  attachmentUpload.single("file"),
+  addPoolTxAttachment,
+);
+router.delete(
+  "/tx/:txnId/attachments/:attachmentId",
+  isAuthenticated,
+  deletePoolTxAttachment,
+);
 
 // ========================
 // Stats
@@ -4,6 +4,8 @@ import {
   getChatMonths,
   getMonthlyReport,
   getPerFriendReport,
+  getSettleUp,
+  getChatSettleUp,
 } from "../controllers/statsController.js";
 import isAuthenticated from "../middlewares/auth.js";
 
@@ -11,6 +13,8 @@ const router = express.Router();
 
 router.get("/chat/:chatId", isAuthenticated, getChatStats);
 router.get("/chat/:chatId/months", isAuthenticated, getChatMonths);
+router.get("/settle-up", isAuthenticated, getSettleUp);
+router.get("/settle-up/chat/:chatId", isAuthenticated, getChatSettleUp);
 router.get("/monthly", isAuthenticated, getMonthlyReport);
 router.get("/friend/:friendId", isAuthenticated, getPerFriendReport);
 
@@ -6,9 +6,26 @@ import {
   editTxn,
   deleteTxn,
   getAllTxnsUser,
+  settleChat,
+  getTxnAttachments,
+  addTxnAttachment,
+  deleteTxnAttachment,
 } from "../controllers/txController.js";
 import isAuthenticated from "../middlewares/auth.js";
-import { validate, addTxnSchema } from "../middlewares/validation.js";
+import {
+  createSplit,
+  getSplit,
+  editSplit,
+  deleteSplit,
+} from "../controllers/splitController.js";
+import { attachmentUpload } from "../middlewares/upload.js";
+import {
+  validate,
+  addTxnSchema,
+  settleChatSchema,
+  createSplitSchema,
+  editSplitSchema,
+} from "../middlewares/validation.js";
 
 const router = express.Router();
 
@@ -18,5 +35,41 @@ router.put("/edittx/:txnId", isAuthenticated, editTxn); // NEW
 router.delete("/deletetx/:txnId", isAuthenticated, deleteTxn); // NEW
 router.post("/verifytx", isAuthenticated, verifyTxn);
 router.get("/usersfriend", isAuthenticated, getAllTxnsUser);
+router.post(
+  "/settle",
+  isAuthenticated,
+  validate(settleChatSchema),
+  settleChat,
+);
+
+// Bill splits (one Tx per participant, changed as a unit)
+router.post(
+  "/split",
+  isAuthenticated,
+  validate(createSplitSchema),
+  createSplit,
+);
+router.get("/split/:splitId", isAuthenticated, getSplit);
+router.put(
+  "/split/:splitId",
+  isAuthenticated,
+  validate(editSplitSchema),
+  editSplit,
+);
+router.delete("/split/:splitId", isAuthenticated, deleteSplit);
+
+// Attachments (receipts / documents)
+router.get("/:txnId/attachments", isAuthenticated, getTxnAttachments);
+router.post(
+  "/:txnId/attachments",
+  isAuthenticated,
+  attachmentUpload.single("file"),
+  addTxnAttachment,
+);
+router.delete(
+  "/:txnId/attachments/:attachmentId",
+  isAuthenticated,
+  deleteTxnAttachment,
+);
 
 export default router;
@@ -6,7 +6,11 @@ import {
   updateProfile,
   refreshToken,
   updatePushToken,
+  removePushToken,
   uploadAvatar,
+  requestAccountDeletion,
+  getPreferences,
+  updatePreferences,
 } from "../controllers/usercontroller.js";
 import {
   sendOtp,
@@ -17,7 +21,29 @@ import {
   changePassword,
   verifyEmail,
   sendVerifyEmailOtp,
+  sendPhoneOtp,
+  verifyPhoneOtp,
+  sendLoginOtp,
+  loginWithOtp,
+  sendVerifyPhoneOtp,
+  verifyPhone,
 } from "../controllers/otpController.js";
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  verifyTwoFactorLogin,
+} from "../controllers/twoFactorController.js";
+import {
+  requestDataExport,
+  getDataExport,
+  downloadDataExport,
+} from "../controllers/dataExportController.js";
+import {
+  getSessions,
+  revokeSessionById,
+  revokeAllUserSessions,
+} from "../controllers/sessionController.js";
 import isAuthenticated from "../middlewares/auth.js";
 import {
   validate,
@@ -25,26 +51,93 @@ import {
   registerSchema,
   updateProfileSchema,
   updatePushTokenSchema,
+  removePushTokenSchema,
   sendOtpSchema,
   verifyOtpSchema,
   resetPasswordSchema,
   changePasswordSchema,
   verifyEmailSchema,
+  sendPhoneOtpSchema,
+  verifyPhoneOtpSchema,
+  verifyPhoneSchema,
+  twoFactorCodeSchema,
+  twoFactorLoginSchema,
+  disableTwoFactorSchema,
+  deleteAccountSchema,
+  updatePreferencesSchema,
 } from "../middlewares/validation.js";
 import { upload } from "../middlewares/upload.js";
+import {
+  loginLimiter,
+  twoFactorLoginLimiter,
+  otpSendLimiter,
+  otpVerifyLimiter,
+  phoneOtpSendLimiter,
+  phoneOtpVerifyLimiter,
+  accountPhoneOtpSendLimiter,
+  accountPhoneOtpVerifyLimiter,
+  dataExportLimiter,
+} from "../middlewares/rateLimiter.js";
 
 const router = express.Router();
 
 // ─── Public Routes ────────────────────────────────────────────
-router.post("/login", validate(loginSchema), login);
+router.post("/login", loginLimiter, validate(loginSchema), login);
 router.post("/register", validate(registerSchema), registerWithEmail);
+router.post(
+  "/login/2fa",
+  twoFactorLoginLimiter,
+  validate(twoFactorLoginSchema),
+  verifyTwoFactorLogin,
+);
 router.post("/refresh", refreshToken);
 
 // OTP - public
-router.post("/send-otp", validate(sendOtpSchema), sendOtp);
-router.post("/verify-otp", validate(verifyOtpSchema), verifyOtp);
-router.post("/forgot-password", validate(sendOtpSchema), forgotPassword);
-router.post("/reset-password", validate(resetPasswordSchema), resetPassword);
+router.post("/send-otp", otpSendLimiter, validate(sendOtpSchema), sendOtp);
+router.post(
+  "/verify-otp",
+  otpVerifyLimiter,
+  validate(verifyOtpSchema),
+  verifyOtp,
+);
+router.post(
+  "/forgot-password",
+  otpSendLimiter,
+  validate(sendOtpSchema),
+  forgotPassword,
+);
+router.post(
+  "/reset-password",
+  otpVerifyLimiter,
+  validate(resetPasswordSchema),
+  resetPassword,
+);
+
+// Phone OTP - public (registration + passwordless login)
+router.post(
+  "/send-phone-otp",
+  phoneOtpSendLimiter,
+  validate(sendPhoneOtpSchema),
+  sendPhoneOtp,
+);
+router.post(
+  "/verify-phone-otp",
+  phoneOtpVerifyLimiter,
+  validate(verifyPhoneOtpSchema),
+  verifyPhoneOtp,
+);
+router.post(
+  "/login/otp/send",
+  phoneOtpSendLimiter,
+  validate(sendPhoneOtpSchema),
+  sendLoginOtp,
+);
+router.post(
+  "/login/otp/verify",
+  phoneOtpVerifyLimiter,
+  validate(verifyPhoneOtpSchema),
+  loginWithOtp,
+);
 
 // ─── Protected Routes ─────────────────────────────────────────
 router.get("/logout", isAuthenticated, logout);
@@ -55,12 +148,41 @@ router.put(
   validate(updateProfileSchema),
   updateProfile,
 );
+router.get("/preferences", isAuthenticated, getPreferences);
+router.put(
+  "/preferences",
+  isAuthenticated,
+  validate(updatePreferencesSchema),
+  updatePreferences,
+);
+router.delete(
+  "/me",
+  isAuthenticated,
+  validate(deleteAccountSchema),
+  requestAccountDeletion,
+);
+
+// Personal data export (ZIP) - download is authorised by the signed link
+router.get("/me/export/download", downloadDataExport);
+router.post(
+  "/me/export",
+  isAuthenticated,
+  dataExportLimiter,
+  requestDataExport,
+);
+router.get("/me/export/:exportId", isAuthenticated, getDataExport);
 router.post(
   "/push-token",
   isAuthenticated,
   validate(updatePushTokenSchema),
   updatePushToken,
 );
+router.delete(
+  "/push-token",
+  isAuthenticated,
+  validate(removePushTokenSchema),
+  removePushToken,
+);
 router.post(
   "/upload-avatar",
   isAuthenticated,
@@ -68,19 +190,54 @@ router.post(
   uploadAvatar,
 );
 
+// Sessions (signed-in devices) - protected
+router.get("/sessions", isAuthenticated, getSessions);
+router.delete("/sessions", isAuthenticated, revokeAllUserSessions);
+router.delete("/sessions/:sessionId", isAuthenticated, revokeSessionById);
+
+// Two-factor authentication (TOTP) - protected
+router.post("/2fa/setup", isAuthenticated, setupTwoFactor);
+router.post(
+  "/2fa/enable",
+  isAuthenticated,
+  validate(twoFactorCodeSchema),
+  enableTwoFactor,
+);
+router.post(
+  "/2fa/disable",
+  isAuthenticated,
+  validate(disableTwoFactorSchema),
+  disableTwoFactor,
+);
+
 // OTP - protected
 router.post(
   "/send-verify-email-otp",
   isAuthenticated,
+  otpSendLimiter,
   validate(sendOtpSchema),
   sendVerifyEmailOtp,
 );
 router.post(
   "/verify-email",
   isAuthenticated,
+  otpVerifyLimiter,
   validate(verifyEmailSchema),
   verifyEmail,
 );
+router.post(
+  "/send-verify-phone-otp",
+  isAuthenticated,
+  accountPhoneOtpSendLimiter,
+  sendVerifyPhoneOtp,
+);
+router.post(
+  "/verify-phone",
+  isAuthenticated,
+  accountPhoneOtpVerifyLimiter,
+  validate(verifyPhoneSchema),
+  verifyPhone,
+);
 router.post(
   "/change-password",
   isAuthenticated,
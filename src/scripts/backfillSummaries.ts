@@ -1,7 +1,9 @@
 /**
  * Backfill MonthlySummary from existing transactions.
  *
- * Run once after deploying the new MonthlySummary model:
+ * Run once after deploying the new MonthlySummary model, and again after
+ * deploying timezone-aware month boundaries (rebuilds keys per chat timezone).
+ * Also rebuilds each chat's running balances (Chat.balances) from the result:
  *   npx ts-node src/scripts/backfillSummaries.ts
  *
  * Or after building:
@@ -22,6 +24,9 @@ dotenv.config({ path: envPath });
 
 import { Tx } from "../models/txModel.js";
 import { MonthlySummary } from "../models/monthlySummaryModel.js";
+import { Chat } from "../models/chatModel.js";
+import { DEFAULT_TIMEZONE } from "../utils/period.js";
+import { getTxLegs, syncChatBalances } from "../services/summaryService.js";
 
 async function backfill() {
   const mongoUri = process.env.MONGO_URL;
@@ -37,20 +42,37 @@ async function backfill() {
   await MonthlySummary.deleteMany({});
   console.log("Cleared existing MonthlySummary documents");
 
-  // Aggregate all transactions grouped by chatId + year + month + user direction
+  // Aggregate all transactions grouped by chatId + year + month + user direction.
+  // Months are resolved in each chat's timezone, same as updateSummaryOnAdd.
   const pipeline = [
+    {
+      $lookup: {
+        from: "chats",
+        localField: "chatId",
+        foreignField: "_id",
+        as: "chat",
+      },
+    },
+    {
+      $addFields: {
+        timezone: {
+          $ifNull: [{ $first: "$chat.timezone" }, DEFAULT_TIMEZONE],
+        },
+      },
+    },
     {
       $group: {
         _id: {
           chatId: "$chatId",
-          year: { $year: "$date" },
-          month: { $month: "$date" },
+          year: { $year: { date: "$date", timezone: "$timezone" } },
+          month: { $month: { date: "$date", timezone: "$timezone" } },
         },
         txns: {
           $push: {
             from: "$from",
             to: "$to",
             amount: "$amount",
+            participants: "$participants",
           },
         },
         txCount: { $sum: 1 },
@@ -71,19 +93,17 @@ async function backfill() {
       { totalSent: number; totalReceived: number }
     > = {};
 
-    for (const txn of group.txns) {
-      const fromId = txn.from.toString();
-      const toId = txn.to.toString();
-
-      if (!members[fromId]) {
-        members[fromId] = { totalSent: 0, totalReceived: 0 };
+    // Group payments count once per participant the payer covered
+    for (const leg of group.txns.flatMap(getTxLegs)) {
+      if (!members[leg.from]) {
+        members[leg.from] = { totalSent: 0, totalReceived: 0 };
       }
-      if (!members[toId]) {
-        members[toId] = { totalSent: 0, totalReceived: 0 };
+      if (!members[leg.to]) {
+        members[leg.to] = { totalSent: 0, totalReceived: 0 };
       }
 
-      members[fromId].totalSent += txn.amount;
-      members[toId].totalReceived += txn.amount;
+      members[leg.from].totalSent += leg.amount;
+      members[leg.to].totalReceived += leg.amount;
     }
 
     await MonthlySummary.create({
@@ -99,6 +119,13 @@ async function backfill() {
 
   console.log(`✅ Backfilled ${created} MonthlySummary documents`);
 
+  // Running balances shown on the chat list
+  const chatIds = await Chat.distinct("_id");
+  for (const chatId of chatIds) {
+    await syncChatBalances(chatId);
+  }
+  console.log(`✅ Rebuilt balances for ${chatIds.length} chats`);
+
   await mongoose.disconnect();
   console.log("Disconnected from MongoDB");
   process.exit(0);
@@ -0,0 +1,46 @@
+/**
+ * One-time migration: removes the placeholder "__pending__" users that the old
+ * send-otp flow created to hold registration OTPs, and strips the old OTP
+ * fields from real users. OTPs now live in the OtpChallenge collection.
+ *
+ * Run: npx tsx src/scripts/removePendingUsers.ts
+ */
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { User } from "../models/userModel.js";
+
+dotenv.config();
+
+async function migrate() {
+  const mongoUrl = process.env.MONGO_URL || "mongodb://localhost:27017/finzz";
+
+  await mongoose.connect(mongoUrl);
+  console.log("Connected to DB");
+
+  // Placeholder users: name "__pending__" + phone "pending_<email>_otp"
+  const deleted = await User.deleteMany({
+    $or: [{ name: "__pending__" }, { phone: /^pending_.*_otp$/ }],
+  });
+  console.log(`Deleted ${deleted.deletedCount} placeholder users`);
+
+  // OTP fields are no longer part of the User schema
+  const cleaned = await User.collection.updateMany(
+    {
+      $or: [
+        { otp: { $exists: true } },
+        { otpExpiry: { $exists: true } },
+        { otpAttempts: { $exists: true } },
+      ],
+    },
+    { $unset: { otp: "", otpExpiry: "", otpAttempts: "" } },
+  );
+  console.log(`Removed old OTP fields from ${cleaned.modifiedCount} users`);
+
+  console.log("Done!");
+  await mongoose.disconnect();
+}
+
+migrate().catch((err) => {
+  console.error("Migration failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,208 @@
+import mongoose from "mongoose";
+import { randomBytes } from "crypto";
+import { User, IUser } from "../models/userModel.js";
+import { Chat } from "../models/chatModel.js";
+import { Pool } from "../models/poolModel.js";
+import { Tx } from "../models/txModel.js";
+import { PoolTx } from "../models/poolTxModel.js";
+import { FriendRequest } from "../models/friendRequestModel.js";
+import { MonthlySummary } from "../models/monthlySummaryModel.js";
+import { Expense } from "../models/expenseModel.js";
+import { ExpenseLedger } from "../models/expenseLedgerModel.js";
+import { Notification } from "../models/notificationModel.js";
+import { Session } from "../models/sessionModel.js";
+import { OtpChallenge } from "../models/otpChallengeModel.js";
+import { DeviceToken } from "../models/deviceTokenModel.js";
+import { NotificationOutbox } from "../models/notificationOutboxModel.js";
+import { revokeAllSessions } from "./sessionService.js";
+import { deleteUserDataExports } from "./dataExportService.js";
+import { deleteImageByKey } from "./storageService.js";
+import { deleteAttachmentsWhere } from "./attachmentService.js";
+import { getOwedBalancesByChat, SETTLED_TOLERANCE } from "./summaryService.js";
+import ErrorHandler from "../middlewares/Errorhandler.js";
+
+export const DELETION_GRACE_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
+export const DELETED_USER_NAME = "Deleted user";
+
+export interface OpenGroupBalance {
+  chatId: string;
+  name: string;
+  balance: number; // positive = the group owes the user, negative = they owe it
+}
+
+/**
+ * Group chats where the user still owes or is owed money. Deleting the
+ * account would leave the others with a balance nobody can settle (same
+ * rule as leaving a group), so these have to be settled first.
+ */
+export async function getOpenGroupBalances(
+  userId: string,
+): Promise<OpenGroupBalance[]> {
+  const groups = await Chat.find({ members: userId, groupChat: true })
+    .select("name")
+    .lean<{ _id: mongoose.Types.ObjectId; name?: string }[]>();
+  const balancesByChat = await getOwedBalancesByChat(
+    groups.map((group) => group._id),
+  );
+
+  return groups
+    .map((group) => ({
+      chatId: group._id.toString(),
+      name: group.name || "",
+      balance: balancesByChat.get(group._id.toString())?.[userId] || 0,
+    }))
+    .filter((group) => Math.abs(group.balance) >= SETTLED_TOLERANCE);
+}
+
+/**
+ * Schedule the account for deletion and sign out every device.
+ * Logging in again before the date cancels it (see cancelScheduledDeletion).
+ */
+export async function scheduleAccountDeletion(user: IUser): Promise<Date> {
+  const scheduledFor = new Date(Date.now() + DELETION_GRACE_MS);
+
+  user.deletionScheduledFor = scheduledFor;
+  await user.save({ validateBeforeSave: false });
+  await revokeAllSessions(user._id.toString());
+
+  return scheduledFor;
+}
+
+/**
+ * Returns true if a pending deletion was cancelled
+ */
+export async function cancelScheduledDeletion(user: IUser): Promise<boolean> {
+  if (!user.deletionScheduledFor) return false;
+
+  user.deletionScheduledFor = undefined;
+  await user.save({ validateBeforeSave: false });
+  return true;
+}
+
+/**
+ * Removes a user and everything only they own. Shared history is kept:
+ * 1:1 chats with transactions, Tx rows, MonthlySummary and PoolTx rows stay
+ * so counterparties keep their ledger, and the User document is reduced to an
+ * anonymous tombstone ("Deleted user") those rows still point at.
+ *
+ * Used by both self-service deletion (after the grace period) and admin deleteUser.
+ * Refuses while a group balance is open (see getOpenGroupBalances).
+ */
+export async function purgeUserAccount(userId: string): Promise<void> {
+  const id = new mongoose.Types.ObjectId(userId);
+
+  const user = await User.findById(id).select("+avatarKey");
+  if (!user || user.deletedAt) return;
+
+  if ((await getOpenGroupBalances(userId)).length > 0) {
+    throw new ErrorHandler(
+      "User still has an open balance in a group. Settle up first",
+      400,
+    );
+  }
+
+  // ── Friends & requests ──
+  await Promise.all([
+    User.updateMany({ friends: id }, { $pull: { friends: id } }),
+    FriendRequest.deleteMany({ $or: [{ from: id }, { to: id }] }),
+  ]);
+
+  // ── Chats ──
+  const chats = await Chat.find({ members: id }).select("_id groupChat").lean();
+  for (const chat of chats as any[]) {
+    if (chat.groupChat) {
+      // Group keeps going without the user; their past rows stay anonymised
+      await Chat.updateOne({ _id: chat._id }, { $pull: { members: id } });
+      continue;
+    }
+
+    // 1:1 chat with no history is just an empty friendship — drop it
+    const hasTx = await Tx.exists({ chatId: chat._id });
+    if (!hasTx) {
+      await Promise.all([
+        Chat.deleteOne({ _id: chat._id }),
+        MonthlySummary.deleteMany({ chatId: chat._id }),
+      ]);
+    }
+  }
+
+  // ── Pools: hand admin over, drop empty pools ──
+  const pools = await Pool.find({ members: id }).select(
+    "_id admin members +imageKey",
+  );
+  for (const pool of pools) {
+    const remaining = pool.members.filter(
+      (m: mongoose.Types.ObjectId) => !m.equals(id),
+    );
+
+    if (remaining.length === 0) {
+      await deleteAttachmentsWhere(PoolTx, { poolId: pool._id });
+      await Promise.all([
+        PoolTx.deleteMany({ poolId: pool._id }),
+        Pool.deleteOne({ _id: pool._id }),
+        deleteImageByKey(pool.imageKey),
+      ]);
+      continue;
+    }
+
+    pool.members = remaining;
+    if (pool.admin.equals(id)) {
+      pool.admin = remaining[0]; // longest-standing member becomes admin
+    }
+    await pool.save();
+  }
+
+  // ── Personal data ──
+  await deleteAttachmentsWhere(Expense, { userId: id });
+  await Promise.all([
+    Expense.deleteMany({ userId: id }),
+    ExpenseLedger.deleteMany({ userId: id }),
+    Notification.deleteMany({ $or: [{ recipient: id }, { sender: id }] }),
+    Session.deleteMany({ userId: id }),
+    OtpChallenge.deleteMany({ userId: id }),
+    DeviceToken.deleteMany({ userId: id }),
+    NotificationOutbox.deleteMany({ recipient: id }),
+    deleteUserDataExports(userId),
+  ]);
+
+  await deleteImageByKey(user.avatarKey);
+
+  // ── Tombstone: no personal data, cannot log in ──
+  await User.replaceOne(
+    { _id: id },
+    {
+      _id: id,
+      name: DELETED_USER_NAME,
+      phone: `deleted_${userId}`,
+      password: randomBytes(32).toString("hex"), // never hashed → never matches
+      avatar: "",
+      friends: [],
+      deletedAt: new Date(),
+    },
+  );
+}
+
+/**
+ * Purge every account whose grace period has ended. Run periodically.
+ * Accounts with an open group balance stay scheduled until it is settled.
+ */
+export async function processScheduledDeletions(): Promise<number> {
+  const due = await User.find({
+    deletionScheduledFor: { $lte: new Date() },
+    deletedAt: { $exists: false },
+  })
+    .select("_id")
+    .lean();
+
+  let purged = 0;
+  for (const { _id } of due as any[]) {
+    try {
+      await purgeUserAccount(_id.toString());
+      purged++;
+    } catch (error) {
+      console.error(`Failed to delete account ${_id}:`, error);
+    }
+  }
+
+  return purged;
+}
@@ -0,0 +1,77 @@
+import mongoose from "mongoose";
+import type { IAttachment } from "../models/attachmentSchema.js";
+import { deleteFile, getSignedFileUrl, uploadFile } from "./storageService.js";
+
+const ATTACHMENT_FOLDER = "attachments";
+
+/**
+ * Store an uploaded receipt / document privately and return the
+ * subdocument to push onto the record
+ */
+export async function storeAttachment(
+  file: Express.Multer.File,
+  userId: string,
+): Promise<Omit<IAttachment, "_id">> {
+  const stored = await uploadFile(file.buffer, {
+    folder: ATTACHMENT_FOLDER,
+    contentType: file.mimetype,
+    visibility: "private",
+  });
+
+  return {
+    key: stored.key,
+    name: file.originalname,
+    contentType: stored.contentType,
+    size: stored.size,
+    visibility: stored.visibility,
+    uploadedBy: new mongoose.Types.ObjectId(userId),
+    uploadedAt: new Date(),
+  };
+}
+
+/**
+ * Attachments as sent to the app: metadata plus a short-lived signed URL.
+ * The storage key itself is never exposed.
+ */
+export const withSignedUrls = (attachments: IAttachment[] = []) =>
+  attachments.map((attachment) => ({
+    _id: attachment._id,
+    name: attachment.name,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    uploadedBy: attachment.uploadedBy,
+    uploadedAt: attachment.uploadedAt,
+    url: getSignedFileUrl(attachment),
+  }));
+
+/**
+ * Remove stored files. Never throws — a leftover file shouldn't block
+ * deleting the record it belonged to.
+ */
+export async function deleteAttachmentFiles(
+  attachments: IAttachment[] = [],
+): Promise<void> {
+  await Promise.all(
+    attachments.map((attachment) =>
+      deleteFile(attachment).catch((error) =>
+        console.error(`Failed to delete attachment ${attachment.key}:`, error),
+      ),
+    ),
+  );
+}
+
+/**
+ * Remove the stored files of every record matching `filter`
+ * (call before deleting the records themselves)
+ */
+export async function deleteAttachmentsWhere(
+  model: mongoose.Model<any>,
+  filter: Record<string, unknown>,
+): Promise<void> {
+  const records = await model
+    .find({ ...filter, "attachments.0": { $exists: true } })
+    .select("attachments")
+    .lean<{ attachments: IAttachment[] }[]>();
+
+  await deleteAttachmentFiles(records.flatMap((record) => record.attachments));
+}
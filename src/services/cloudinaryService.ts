@@ -2,25 +2,39 @@ import cloudinary, { CLOUDINARY_FOLDER } from "../config/cloudinary.js";
 import { UploadApiResponse } from "cloudinary";
 import { Readable } from "stream";
 
+export interface CloudinaryAssetOptions {
+  resourceType?: "image" | "raw"; // raw = documents (PDF receipts)
+  deliveryType?: "upload" | "authenticated"; // authenticated = signed URLs only
+}
+
 /**
  * Upload image buffer to Cloudinary
  * @param fileBuffer - Buffer from multer
  * @param folder - Optional folder path in Cloudinary
+ * @param options - Asset type + transformation (defaults to a 500x500 avatar crop)
  * @returns Cloudinary upload response with secure_url
  */
 export async function uploadToCloudinary(
   fileBuffer: Buffer,
   folder: string = CLOUDINARY_FOLDER,
+  options: CloudinaryAssetOptions & { transformation?: object[] } = {},
 ): Promise<UploadApiResponse> {
+  const resourceType = options.resourceType || "image";
+  const transformation =
+    resourceType === "image"
+      ? options.transformation || [
+          { width: 500, height: 500, crop: "fill", gravity: "face" },
+          { quality: "auto", fetch_format: "auto" },
+        ]
+      : undefined;
+
   return new Promise((resolve, reject) => {
     const uploadStream = cloudinary.uploader.upload_stream(
       {
         folder,
-        resource_type: "image",
-        transformation: [
-          { width: 500, height: 500, crop: "fill", gravity: "face" },
-          { quality: "auto", fetch_format: "auto" },
-        ],
+        resource_type: resourceType,
+        type: options.deliveryType || "upload",
+        ...(transformation && { transformation }),
       },
       (error, result) => {
         if (error) {
@@ -43,9 +57,15 @@ export async function uploadToCloudinary(
  * Delete image from Cloudinary by public_id
  * @param publicId - Cloudinary public_id (extracted from URL)
  */
-export async function deleteFromCloudinary(publicId: string): Promise<void> {
+export async function deleteFromCloudinary(
+  publicId: string,
+  options: CloudinaryAssetOptions = {},
+): Promise<void> {
   try {
-    await cloudinary.uploader.destroy(publicId);
+    await cloudinary.uploader.destroy(publicId, {
+      resource_type: options.resourceType || "image",
+      type: options.deliveryType || "upload",
+    });
     console.log(`Deleted image from Cloudinary: ${publicId}`);
   } catch (error) {
     console.error(`Failed to delete image from Cloudinary: ${publicId}`, error);
@@ -53,6 +73,23 @@ export async function deleteFromCloudinary(publicId: string): Promise<void> {
   }
 }
 
+/**
+ * Time-limited download URL for an "authenticated" asset
+ * @param expiresAt - Unix time (seconds) after which the URL stops working
+ */
+export function getCloudinarySignedUrl(
+  publicId: string,
+  format: string,
+  expiresAt: number,
+  options: CloudinaryAssetOptions = {},
+): string {
+  return cloudinary.utils.private_download_url(publicId, format, {
+    resource_type: options.resourceType || "image",
+    type: options.deliveryType || "authenticated",
+    expires_at: expiresAt,
+  });
+}
+
 /**
  * Extract Cloudinary public_id from secure_url
  * Example: https://res.cloudinary.com/demo/image/upload/v1234/finzz/avatars/abc123.jpg
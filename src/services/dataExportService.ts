@@ -0,0 +1,344 @@
+import jwt from "jsonwebtoken";
+import path from "path";
+import { mkdir, writeFile, unlink } from "fs/promises";
+import { JWT_SECRET, EXPORT_DIR } from "../config/envVariables.js";
+import { User } from "../models/userModel.js";
+import { Tx } from "../models/txModel.js";
+import { Pool } from "../models/poolModel.js";
+import { PoolTx } from "../models/poolTxModel.js";
+import { Expense } from "../models/expenseModel.js";
+import { ExpenseLedger } from "../models/expenseLedgerModel.js";
+import { Notification } from "../models/notificationModel.js";
+import { DataExport, IDataExport } from "../models/dataExportModel.js";
+import { resolvePreferences } from "./preferenceService.js";
+import { createZip, ZipEntry } from "../utils/zip.js";
+
+export const EXPORT_LINK_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+// A build still "processing" after this was lost (e.g. the process crashed)
+const EXPORT_BUILD_LEASE_MS = 15 * 60 * 1000;
+// Download tokens only grant access to one export file
+const EXPORT_TOKEN_AUDIENCE = "finzz:export";
+
+//======= Download Links =======//
+
+/**
+ * Signed token for the download link, valid until the export expires
+ */
+export function issueExportDownloadToken(dataExport: IDataExport): string {
+  const expiresIn = Math.max(
+    1,
+    Math.floor(((dataExport.expiresAt?.getTime() ?? 0) - Date.now()) / 1000),
+  );
+  return jwt.sign({ eid: dataExport._id.toString() }, JWT_SECRET, {
+    expiresIn,
+    audience: EXPORT_TOKEN_AUDIENCE,
+  });
+}
+
+/**
+ * Returns the export id from a download token, or null if invalid/expired
+ */
+export function verifyExportDownloadToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET, {
+      audience: EXPORT_TOKEN_AUDIENCE,
+    }) as { eid: string };
+    return decoded.eid;
+  } catch {
+    return null;
+  }
+}
+
+//======= CSV =======//
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Names, remarks etc. are user input: make them plain text
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (columns: string[], rows: Record<string, unknown>[]): string =>
+  [
+    columns.join(","),
+    ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(",")),
+  ].join("\n") + "\n";
+
+//======= Archive Contents =======//
+
+const nameOf = (user: any) => user?.name ?? "";
+
+/**
+ * Collect everything the user has in Finzz as JSON + CSV zip entries
+ */
+async function collectUserData(userId: string): Promise<ZipEntry[]> {
+  const user: any = await User.findById(userId)
+    .select(
+      "name phone phoneVerified email emailVerified avatar twoFactorEnabled preferences friends",
+    )
+    .populate("friends", "name phone")
+    .lean();
+  if (!user) throw new Error("User not found");
+
+  const pools: any[] = await Pool.find({ members: userId })
+    .populate("admin", "name")
+    .lean();
+  const poolIds = pools.map((p) => p._id);
+
+  const [txns, poolTxns, ledgers, expenses, notifications]: any[][] =
+    await Promise.all([
+      Tx.find({
+        $or: [
+          { from: userId },
+          { to: userId },
+          { "participants.user": userId },
+        ],
+      })
+        .sort({ date: 1 })
+        .populate("from to addedBy participants.user", "name phone")
+        .lean(),
+      PoolTx.find({ poolId: { $in: poolIds } })
+        .sort({ date: 1 })
+        .populate("addedBy", "name")
+        .lean(),
+      ExpenseLedger.find({ userId }).sort({ year: 1, month: 1 }).lean(),
+      Expense.find({ userId }).sort({ date: 1 }).lean(),
+      Notification.find({ recipient: userId })
+        .sort({ createdAt: 1 })
+        .populate("sender", "name")
+        .lean(),
+    ]);
+
+  const profile = {
+    _id: user._id,
+    name: user.name,
+    phone: user.phone,
+    phoneVerified: user.phoneVerified,
+    email: user.email,
+    emailVerified: user.emailVerified,
+    avatar: user.avatar,
+    twoFactorEnabled: user.twoFactorEnabled,
+    ...resolvePreferences(user.preferences),
+  };
+
+  const friends = (user.friends || []).map((f: any) => ({
+    _id: f._id,
+    name: f.name,
+    phone: f.phone,
+  }));
+
+  const transactions = txns.map((tx) => {
+    const sent = tx.from?._id?.toString() === userId;
+    // Group payments: the payer sent the total, everyone else got their share
+    const participants: any[] = tx.participants || [];
+    const share = participants.find((p) => p.user?._id?.toString() === userId);
+    const counterparty = participants.length
+      ? sent
+        ? participants.filter((p) => p !== share).map((p) => p.user)
+        : [tx.from]
+      : [sent ? tx.to : tx.from];
+    return {
+      _id: tx._id,
+      chatId: tx.chatId,
+      date: tx.date,
+      amount: !sent && share ? share.amount : tx.amount,
+      direction: sent ? "sent" : "received",
+      kind: tx.kind || "expense",
+      counterparty: counterparty.map(nameOf).join(", "),
+      counterpartyPhone: counterparty.map((u) => u?.phone ?? "").join(", "),
+      remarks: tx.remarks,
+      addedBy: nameOf(tx.addedBy),
+      verified: tx.verified,
+      verifiedAt: tx.verifiedAt,
+    };
+  });
+
+  const poolRows = pools.map((p) => ({
+    _id: p._id,
+    name: p.name,
+    description: p.description,
+    status: p.status,
+    admin: nameOf(p.admin),
+    isAdmin: p.admin?._id?.toString() === userId,
+    memberCount: p.members?.length ?? 0,
+    createdAt: p.createdAt,
+  }));
+
+  const poolNames = new Map(pools.map((p) => [p._id.toString(), p.name]));
+  const poolTransactions = poolTxns.map((tx) => ({
+    _id: tx._id,
+    poolId: tx.poolId,
+    pool: poolNames.get(tx.poolId.toString()),
+    date: tx.date,
+    type: tx.type,
+    amount: tx.amount,
+    remarks: tx.remarks,
+    addedBy: nameOf(tx.addedBy),
+    verified: tx.verified,
+  }));
+
+  const expenseLedgers = ledgers.map((l) => ({
+    _id: l._id,
+    year: l.year,
+    month: l.month,
+    status: l.status,
+    totalExpenses: l.totalExpenses,
+    totalCredits: l.totalCredits,
+    closedAt: l.closedAt,
+  }));
+
+  const expenseRows = expenses.map((e) => ({
+    _id: e._id,
+    ledgerId: e.ledgerId,
+    date: e.date,
+    type: e.type,
+    amount: e.amount,
+    category: e.category,
+    remarks: e.remarks,
+  }));
+
+  const notificationRows = notifications.map((n) => ({
+    _id: n._id,
+    createdAt: n.createdAt,
+    type: n.type,
+    title: n.title,
+    body: n.body,
+    from: nameOf(n.sender),
+    read: n.read,
+  }));
+
+  const datasets: [string, Record<string, unknown>[]][] = [
+    ["friends", friends],
+    ["transactions", transactions],
+    ["pools", poolRows],
+    ["pool_transactions", poolTransactions],
+    ["expense_ledgers", expenseLedgers],
+    ["expenses", expenseRows],
+    ["notifications", notificationRows],
+  ];
+
+  const entries: ZipEntry[] = [
+    { name: "profile.json", data: JSON.stringify(profile, null, 2) },
+    { name: "csv/profile.csv", data: toCsv(Object.keys(profile), [profile]) },
+  ];
+
+  for (const [name, rows] of datasets) {
+    entries.push({
+      name: `json/${name}.json`,
+      data: JSON.stringify(rows, null, 2),
+    });
+    if (rows.length > 0) {
+      entries.push({
+        name: `csv/${name}.csv`,
+        data: toCsv(Object.keys(rows[0]), rows),
+      });
+    }
+  }
+
+  return entries;
+}
+
+//======= Background Job =======//
+
+/**
+ * Build one export. Claims it first so two workers never build the same one.
+ */
+async function buildDataExport(exportId: string): Promise<void> {
+  const dataExport = await DataExport.findOneAndUpdate(
+    { _id: exportId, status: "pending" },
+    { $set: { status: "processing", startedAt: new Date() } },
+    { new: true },
+  );
+  if (!dataExport) return;
+
+  try {
+    const entries = await collectUserData(dataExport.userId.toString());
+    const zip = createZip(entries);
+
+    await mkdir(EXPORT_DIR, { recursive: true });
+    const filePath = path.join(EXPORT_DIR, `finzz-export-${exportId}.zip`);
+    await writeFile(filePath, zip);
+
+    dataExport.status = "ready";
+    dataExport.filePath = filePath;
+    dataExport.fileSize = zip.length;
+    dataExport.completedAt = new Date();
+    dataExport.expiresAt = new Date(Date.now() + EXPORT_LINK_TTL_MS);
+    await dataExport.save();
+  } catch (error: any) {
+    console.error(`Data export ${exportId} failed:`, error);
+    dataExport.status = "failed";
+    dataExport.error = error.message;
+    dataExport.expiresAt = new Date(Date.now() + EXPORT_LINK_TTL_MS); // cleaned up like the rest
+    await dataExport.save();
+  }
+}
+
+/**
+ * Fail exports whose build outlived its lease, so the user can request a
+ * new one (all users, or just `userId`)
+ */
+export async function failStaleDataExports(userId?: string): Promise<void> {
+  await DataExport.updateMany(
+    {
+      ...(userId && { userId }),
+      status: "processing",
+      startedAt: { $lte: new Date(Date.now() - EXPORT_BUILD_LEASE_MS) },
+    },
+    {
+      $set: {
+        status: "failed",
+        error: "Export did not finish",
+        expiresAt: new Date(Date.now() + EXPORT_LINK_TTL_MS),
+      },
+    },
+  );
+}
+
+/**
+ * Remove all of a user's exports (files included) — used on account deletion
+ */
+export async function deleteUserDataExports(userId: string): Promise<void> {
+  const exports: any[] = await DataExport.find({ userId }).lean();
+  for (const dataExport of exports) {
+    if (dataExport.filePath) {
+      await unlink(dataExport.filePath).catch(() => undefined);
+    }
+  }
+  await DataExport.deleteMany({ userId });
+}
+
+/**
+ * Build all pending exports, then delete expired ones (file + record).
+ * Called right after a request and periodically (picks up anything left
+ * pending by a restart, and fails builds a crash left processing).
+ */
+export async function processDataExports(): Promise<void> {
+  await failStaleDataExports();
+
+  const pending = await DataExport.find({ status: "pending" })
+    .sort({ createdAt: 1 })
+    .select("_id")
+    .lean();
+
+  for (const { _id } of pending as any[]) {
+    await buildDataExport(_id.toString());
+  }
+
+  const expired: any[] = await DataExport.find({
+    expiresAt: { $lte: new Date() },
+  }).lean();
+
+  for (const dataExport of expired) {
+    if (dataExport.filePath) {
+      await unlink(dataExport.filePath).catch(() => undefined);
+    }
+    await DataExport.deleteOne({ _id: dataExport._id });
+  }
+}
@@ -0,0 +1,308 @@
+import mongoose from "mongoose";
+import { User } from "../models/userModel.js";
+import { Notification } from "../models/notificationModel.js";
+import type { NotificationType } from "../models/notificationModel.js";
+import { Chat } from "../models/chatModel.js";
+import { Pool } from "../models/poolModel.js";
+import { PoolTx } from "../models/poolTxModel.js";
+import { getOwedBalancesByChat } from "./summaryService.js";
+import { ExpenseLedger } from "../models/expenseLedgerModel.js";
+import { enqueuePushes } from "./outboxService.js";
+import {
+  getQuietHoursEnd,
+  resolveNotificationSettings,
+} from "./notificationSettingsService.js";
+import { resolvePreferences } from "./preferenceService.js";
+import { renderDigest } from "./notificationTemplateService.js";
+import { sendWeeklySummaryEmail, WeeklySummary } from "./emailService.js";
+import { formatAmount, formatDate } from "../utils/format.js";
+import { getYearMonth, getZonedParts, zonedTimeToUtc } from "../utils/period.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKLY_EMAIL_HOUR = 9; // local time, on the user's first day of the week
+
+//======= Scheduling =======//
+
+/**
+ * The most recent scheduled send time at or before `now`: today (daily) or
+ * the last `weekStart` weekday (weekly) at `hour`, in the user's timezone
+ */
+export function getLastScheduledSlot(
+  frequency: "daily" | "weekly",
+  hour: number,
+  weekStart: number,
+  timezone: string,
+  now: Date = new Date(),
+): Date {
+  const local = getZonedParts(now, timezone);
+  const weekday = new Date(
+    Date.UTC(local.year, local.month - 1, local.day),
+  ).getUTCDay();
+
+  const step = frequency === "weekly" ? 7 : 1;
+  let daysBack = frequency === "weekly" ? (weekday - weekStart + 7) % 7 : 0;
+
+  let slot = zonedTimeToUtc(
+    local.year,
+    local.month,
+    local.day - daysBack,
+    timezone,
+    hour,
+  );
+  if (slot > now) {
+    daysBack += step;
+    slot = zonedTimeToUtc(
+      local.year,
+      local.month,
+      local.day - daysBack,
+      timezone,
+      hour,
+    );
+  }
+  return slot;
+}
+
+//======= Notification Digests =======//
+
+/**
+ * Send one push per user covering every notification held for their digest.
+ * A user's digest goes out once per slot, and only when something in it was
+ * waiting before the slot — new items just after a digest wait for the next.
+ */
+export async function processNotificationDigests(
+  now: Date = new Date(),
+): Promise<void> {
+  const pending = await Notification.aggregate<{
+    _id: mongoose.Types.ObjectId;
+    ids: mongoose.Types.ObjectId[];
+    types: NotificationType[];
+    oldest: Date;
+  }>([
+    { $match: { deliveryStatus: "digest" } },
+    { $sort: { createdAt: -1 } },
+    {
+      $group: {
+        _id: "$recipient",
+        ids: { $push: "$_id" },
+        types: { $push: "$type" },
+        oldest: { $min: "$createdAt" },
+      },
+    },
+  ]);
+  if (pending.length === 0) return;
+
+  const users = await User.find({ _id: { $in: pending.map((p) => p._id) } })
+    .select("preferences notificationSettings")
+    .lean<any[]>();
+  const byId = new Map(users.map((user) => [user._id.toString(), user]));
+
+  for (const group of pending) {
+    const user = byId.get(group._id.toString());
+    if (!user) continue;
+
+    try {
+      const settings = resolveNotificationSettings(user.notificationSettings);
+      const prefs = resolvePreferences(user.preferences);
+      const { frequency, hour, lastSentAt } = settings.digest;
+
+      const slot = getLastScheduledSlot(
+        frequency,
+        hour,
+        prefs.weekStart,
+        prefs.timezone,
+        now,
+      );
+      if (group.oldest > slot) continue;
+      if (lastSentAt && lastSentAt >= slot) continue;
+
+      // Claim this slot so another instance doesn't send the same digest
+      const claimed = await User.updateOne(
+        {
+          _id: user._id,
+          "notificationSettings.digest.lastSentAt": lastSentAt ?? null,
+        },
+        { $set: { "notificationSettings.digest.lastSentAt": now } },
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      const counts = new Map<NotificationType, number>();
+      for (const type of group.types) {
+        counts.set(type, (counts.get(type) || 0) + 1);
+      }
+      const { title, body } = renderDigest(frequency, counts, prefs);
+
+      await Notification.updateMany(
+        { _id: { $in: group.ids }, deliveryStatus: "digest" },
+        { $set: { deliveryStatus: "pending" } },
+      );
+      await enqueuePushes([
+        {
+          notificationId: group.ids[0],
+          batchedNotificationIds: group.ids.slice(1),
+          recipient: group._id.toString(),
+          title,
+          body,
+          data: {
+            type: "digest",
+            screen: "notifications",
+            count: group.ids.length,
+          },
+          nextAttemptAt:
+            getQuietHoursEnd(settings.quietHours, prefs.timezone, now) ??
+            undefined,
+        },
+      ]);
+    } catch (error) {
+      console.error(`Digest for user ${group._id} failed:`, error);
+    }
+  }
+}
+
+//======= Weekly Summary Email =======//
+
+/**
+ * Balances per friend (all time, from MonthlySummary), pool activity over the
+ * last 7 days and this month's personal spend (from ExpenseLedger)
+ */
+export async function buildWeeklySummary(
+  user: { _id: mongoose.Types.ObjectId; name: string; preferences?: any },
+  now: Date = new Date(),
+): Promise<WeeklySummary> {
+  const userId = user._id.toString();
+  const prefs = resolvePreferences(user.preferences);
+  const weekAgo = new Date(now.getTime() - 7 * DAY_MS);
+
+  // Friends: net of every month's sent/received in each 1:1 chat
+  const chats = await Chat.find({ members: user._id, groupChat: { $ne: true } })
+    .select("members")
+    .populate("members", "name")
+    .lean<{ _id: any; members: { _id: any; name: string }[] }[]>();
+
+  const balancesByChat = await getOwedBalancesByChat(
+    chats.map((chat) => chat._id),
+  );
+
+  const friends = chats
+    .map((chat) => {
+      const friend = chat.members.find((m) => m._id.toString() !== userId);
+      // Positive = you paid more than you got back = the friend owes you
+      const balance = balancesByChat.get(chat._id.toString())?.[userId] || 0;
+      return { name: friend?.name || "Unknown", balance };
+    })
+    .filter((friend) => Math.abs(friend.balance) >= 0.01)
+    .sort((a, b) => Math.abs(b.balance) - Math.abs(a.balance))
+    .map((friend) => ({
+      name: friend.name,
+      amount: formatAmount(Math.abs(friend.balance), prefs),
+      owesYou: friend.balance > 0,
+    }));
+
+  // Pools: last 7 days of activity
+  const pools = await Pool.find({ members: user._id })
+    .select("name")
+    .lean<{ _id: any; name: string }[]>();
+  const poolNames = new Map(pools.map((pool) => [pool._id.toString(), pool]));
+
+  const activity = await PoolTx.aggregate<{
+    _id: mongoose.Types.ObjectId;
+    txCount: number;
+    credits: number;
+    debits: number;
+  }>([
+    {
+      $match: {
+        poolId: { $in: pools.map((pool) => pool._id) },
+        date: { $gte: weekAgo, $lte: now },
+      },
+    },
+    {
+      $group: {
+        _id: "$poolId",
+        txCount: { $sum: 1 },
+        credits: {
+          $sum: { $cond: [{ $eq: ["$type", "credit"] }, "$amount", 0] },
+        },
+        debits: {
+          $sum: { $cond: [{ $eq: ["$type", "debit"] }, "$amount", 0] },
+        },
+      },
+    },
+    { $sort: { txCount: -1 } },
+  ]);
+
+  // Personal spend: the current month's ledger
+  const { year, month } = getYearMonth(now, prefs.timezone);
+  const ledger = await ExpenseLedger.findOne({ userId: user._id, year, month })
+    .select("totalExpenses totalCredits")
+    .lean<{ totalExpenses: number; totalCredits: number }>();
+
+  return {
+    name: user.name,
+    periodLabel: `${formatDate(weekAgo, prefs)} – ${formatDate(now, prefs)}`,
+    friends,
+    pools: activity.map((entry) => ({
+      name: poolNames.get(entry._id.toString())?.name || "Pool",
+      txCount: entry.txCount,
+      credits: formatAmount(entry.credits, prefs),
+      debits: formatAmount(entry.debits, prefs),
+    })),
+    spend: {
+      monthLabel: new Intl.DateTimeFormat(prefs.locale, {
+        timeZone: prefs.timezone,
+        month: "long",
+        year: "numeric",
+      }).format(now),
+      expenses: formatAmount(ledger?.totalExpenses || 0, prefs),
+      credits: formatAmount(ledger?.totalCredits || 0, prefs),
+    },
+  };
+}
+
+/**
+ * Email the weekly summary to opted-in users on their first day of the week.
+ * A slot missed by more than a day (downtime, or just opted in) is skipped
+ * rather than sent late.
+ */
+export async function processWeeklyEmails(
+  now: Date = new Date(),
+): Promise<void> {
+  const users = await User.find({
+    "notificationSettings.weeklyEmail.enabled": true,
+    emailVerified: true,
+    email: { $exists: true },
+    deletedAt: { $exists: false },
+  })
+    .select("name email preferences notificationSettings")
+    .lean<any[]>();
+
+  for (const user of users) {
+    try {
+      const prefs = resolvePreferences(user.preferences);
+      const lastSentAt = user.notificationSettings?.weeklyEmail?.lastSentAt;
+
+      const slot = getLastScheduledSlot(
+        "weekly",
+        WEEKLY_EMAIL_HOUR,
+        prefs.weekStart,
+        prefs.timezone,
+        now,
+      );
+      if (now.getTime() - slot.getTime() > DAY_MS) continue;
+      if (lastSentAt && lastSentAt >= slot) continue;
+
+      const claimed = await User.updateOne(
+        {
+          _id: user._id,
+          "notificationSettings.weeklyEmail.lastSentAt": lastSentAt ?? null,
+        },
+        { $set: { "notificationSettings.weeklyEmail.lastSentAt": now } },
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      const summary = await buildWeeklySummary(user, now);
+      await sendWeeklySummaryEmail(user.email, summary);
+    } catch (error) {
+      console.error(`Weekly email for user ${user._id} failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { randomBytes } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { Resend } from "resend";
+import nodemailer, { Transporter } from "nodemailer";
+import {
+  MAIL_DIR,
+  MAIL_DRIVER,
+  MAIL_FROM,
+  RESEND_API_KEY,
+  SMTP_HOST,
+  SMTP_PASS,
+  SMTP_PORT,
+  SMTP_SECURE,
+  SMTP_USER,
+} from "../config/envVariables.js";
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Anything that can deliver an email.
+ * Plug a different one in with setMailTransport().
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+//======= MIME =======//
+
+// Non-ASCII header values (subjects with "—", Hindi names) as RFC 2047 words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+// "Name <addr>" → encode only the display name
+const encodeAddress = (value: string) => {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match && match[1]
+    ? `${encodeHeader(match[1].replace(/^"|"$/g, ""))} <${match[2]}>`
+    : value;
+};
+
+// Bare address (for the Message-ID domain)
+const addressOf = (value: string) =>
+  value.match(/<([^>]+)>/)?.[1] || value.trim();
+
+const base64Lines = (content: string) =>
+  (
+    Buffer.from(content, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g) || []
+  ).join("\r\n");
+
+/**
+ * RFC 5322 message with text + HTML alternatives (what the file driver
+ * writes as .eml)
+ */
+export function buildMimeMessage(message: MailMessage): string {
+  const boundary = `finzz-${randomBytes(12).toString("hex")}`;
+  const domain = addressOf(message.from).split("@")[1] || "localhost";
+
+  return [
+    `From: ${encodeAddress(message.from)}`,
+    `To: ${message.to.map(encodeAddress).join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+//======= Drivers =======//
+
+// Resend HTTP API (production)
+class ResendMailTransport implements MailTransport {
+  name = "resend";
+  private client: Resend;
+
+  constructor(apiKey: string) {
+    this.client = new Resend(apiKey);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const { error } = await this.client.emails.send(message);
+    if (error) throw new Error(error.message);
+  }
+}
+
+// Writes each email to MAIL_DIR as an .eml file (local development, tests)
+class FileMailTransport implements MailTransport {
+  name = "file";
+
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const filePath = path.join(
+      this.dir,
+      `${stamp}-${randomBytes(4).toString("hex")}.eml`,
+    );
+    await writeFile(filePath, buildMimeMessage(message));
+    console.log(`📧 [Email → ${message.to.join(", ")}] ${filePath}`);
+  }
+}
+
+// SMTP submission through nodemailer. Without implicit TLS (port 465) the
+// server must upgrade with STARTTLS before credentials are sent
+class SmtpMailTransport implements MailTransport {
+  name = "smtp";
+  private transporter: Transporter;
+
+  constructor(options: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user: string;
+    pass: string;
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      requireTLS: !options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.pass }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+const createMailTransport = (): MailTransport => {
+  switch (MAIL_DRIVER) {
+    case "resend":
+      return new ResendMailTransport(RESEND_API_KEY);
+    case "smtp":
+      return new SmtpMailTransport({
+        host: SMTP_HOST,
+        port: SMTP_PORT,
+        secure: SMTP_SECURE,
+        user: SMTP_USER,
+        pass: SMTP_PASS,
+      });
+    case "file":
+      return new FileMailTransport(MAIL_DIR);
+    default:
+      throw new Error(
+        `Unknown MAIL_DRIVER "${MAIL_DRIVER}" (expected "resend", "smtp" or "file")`,
+      );
+  }
+};
+
+// Production is held to a delivering driver in config/envVariables
+let transport: MailTransport = createMailTransport();
+
+/**
+ * Replace the active mail transport (another provider, test double, ...)
+ */
+export const setMailTransport = (mailTransport: MailTransport) => {
+  transport = mailTransport;
+};
+
+/**
+ * Send through the configured transport (from defaults to MAIL_FROM)
+ */
+export const sendMail = (
+  message: Omit<MailMessage, "from"> & { from?: string },
+): Promise<void> =>
+  transport.send({ ...message, from: message.from || MAIL_FROM });
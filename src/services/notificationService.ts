@@ -1,13 +1,44 @@
-import { Expo, ExpoPushMessage } from "expo-server-sdk";
-import { User } from "../models/userModel.js";
 import { Notification } from "../models/notificationModel.js";
+import type { NotificationType } from "../models/notificationModel.js";
+import { enqueuePushes } from "./outboxService.js";
+import { planDeliveries } from "./notificationSettingsService.js";
+import { getPreferencesForUsers } from "./preferenceService.js";
+import {
+  NotificationParams,
+  NotificationRefs,
+  renderNotification,
+} from "./notificationTemplateService.js";
 
-// Create a new Expo SDK client
-const expo = new Expo();
+/**
+ * Notify users with the template registered for `type`: each recipient gets
+ * the text in their language and currency, plus the standard deep-link
+ * payload built from `refs`.
+ */
+export async function notifyUsers<T extends NotificationType>(
+  type: T,
+  recipientIds: string[],
+  params: NotificationParams[T],
+  refs: NotificationRefs = {},
+): Promise<void> {
+  try {
+    if (recipientIds.length === 0) return;
+
+    const prefs = await getPreferencesForUsers(recipientIds);
+    await sendBulkPushNotifications(
+      recipientIds.map((userId) => ({
+        userId,
+        ...renderNotification(type, params, refs, prefs.get(userId)!),
+      })),
+    );
+  } catch (error) {
+    console.error("Error in notifyUsers:", error);
+  }
+}
 
 /**
- * Send push notification to a user via Expo Push Service
- * Also saves notification record to database
+ * Notify a user: saves the Notification record (in-app inbox) and queues the
+ * push in the outbox. Returns once both are written — the outbox worker does
+ * the Expo call, so controllers are never slowed down by it.
  */
 export async function sendPushNotification(
   userId: string,
@@ -15,63 +46,15 @@ export async function sendPushNotification(
   body: string,
   data?: Record<string, unknown>,
 ): Promise<void> {
-  try {
-    // 1. Find user and get their push token
-    const user = await User.findById(userId)
-      .select("pushToken")
-      .lean<{ pushToken?: string }>();
-
-    if (!user?.pushToken) {
-      console.log(`No push token for user ${userId}`);
-      return;
-    }
-
-    // 2. Validate Expo push token
-    if (!Expo.isExpoPushToken(user.pushToken)) {
-      console.error(
-        `Invalid Expo push token for user ${userId}: ${user.pushToken}`,
-      );
-      return;
-    }
-
-    // 3. Build push notification message
-    const message: ExpoPushMessage = {
-      to: user.pushToken,
-      sound: "default",
-      title,
-      body,
-      data: data || {},
-    };
-
-    // 4. Send via Expo Push Service (batch-safe)
-    const chunks = expo.chunkPushNotifications([message]);
-    const tickets = [];
-
-    for (const chunk of chunks) {
-      try {
-        const ticketChunk = await expo.sendPushNotificationsAsync(chunk);
-        tickets.push(...ticketChunk);
-      } catch (error) {
-        console.error("Error sending push notification:", error);
-      }
-    }
-
-    // 5. Save notification record to database
-    await Notification.create({
-      recipient: userId,
-      sender: data?.senderId,
-      type: data?.type,
-      data,
-    });
-
-    console.log(`Push notification sent to user ${userId}`);
-  } catch (error) {
-    console.error("Error in sendPushNotification:", error);
-  }
+  // Errors are logged (never thrown) by the bulk sender
+  await sendBulkPushNotifications([{ userId, title, body, data }]);
 }
 
 /**
- * Send push notifications to multiple users (batch operation)
+ * Notify multiple users (batch operation).
+ * Each recipient's notification settings decide the outcome: types turned
+ * "off" are dropped, "in_app"/"digest" types and muted chats/pools only get
+ * the inbox record, and pushes during quiet hours wait until they end.
  */
 export async function sendBulkPushNotifications(
   notifications: Array<{
@@ -82,57 +65,39 @@ export async function sendBulkPushNotifications(
   }>,
 ): Promise<void> {
   try {
-    // Get all user push tokens
-    const userIds = notifications.map((n) => n.userId);
-    const users = await User.find({ _id: { $in: userIds } })
-      .select("_id pushToken")
-      .lean();
-
-    const userTokenMap = new Map<string, string | undefined>(
-      users.map((u: any) => [u._id.toString(), u.pushToken]),
+    if (notifications.length === 0) return;
+
+    const plans = await planDeliveries(notifications);
+    const delivered = notifications
+      .map((notification, i) => ({ ...notification, plan: plans[i] }))
+      .filter(({ plan }) => plan.mode !== "off");
+    if (delivered.length === 0) return;
+
+    const records = await Notification.insertMany(
+      delivered.map(({ userId, title, body, data, plan }) => ({
+        recipient: userId,
+        sender: data?.senderId,
+        type: data?.type,
+        title,
+        body,
+        data,
+        deliveryStatus: plan.mode === "push" ? "pending" : plan.mode,
+      })),
     );
 
-    // Build messages
-    const messages: ExpoPushMessage[] = [];
-    const notificationRecords = [];
-
-    for (const notification of notifications) {
-      const pushToken = userTokenMap.get(notification.userId);
-
-      if (pushToken && Expo.isExpoPushToken(pushToken)) {
-        messages.push({
-          to: pushToken,
-          sound: "default",
-          title: notification.title,
-          body: notification.body,
-          data: notification.data || {},
-        });
-
-        notificationRecords.push({
-          recipient: notification.userId,
-          sender: notification.data?.senderId,
-          type: notification.data?.type,
-          data: notification.data,
-        });
-      }
-    }
-
-    // Send in chunks
-    const chunks = expo.chunkPushNotifications(messages);
-    for (const chunk of chunks) {
-      try {
-        await expo.sendPushNotificationsAsync(chunk);
-      } catch (error) {
-        console.error("Error sending bulk push notifications:", error);
-      }
-    }
-
-    // Save all notification records
-    if (notificationRecords.length > 0) {
-      await Notification.insertMany(notificationRecords);
-    }
-
-    console.log(`Bulk push notifications sent to ${messages.length} users`);
+    await enqueuePushes(
+      records
+        .map((record: any, i: number) => ({ record, ...delivered[i] }))
+        .filter(({ plan }) => plan.mode === "push")
+        .map(({ record, userId, title, body, data, plan }) => ({
+          notificationId: record._id,
+          recipient: userId,
+          title,
+          body,
+          data,
+          nextAttemptAt: plan.deferUntil,
+        })),
+    );
   } catch (error) {
     console.error("Error in sendBulkPushNotifications:", error);
   }
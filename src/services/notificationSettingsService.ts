@@ -0,0 +1,148 @@
+import { User } from "../models/userModel.js";
+import type {
+  INotificationSettings,
+  NotificationDeliveryMode,
+} from "../models/userModel.js";
+import {
+  NOTIFICATION_TYPES,
+  NotificationType,
+} from "../models/notificationModel.js";
+import { getZonedParts, zonedTimeToUtc } from "../utils/period.js";
+import { resolvePreferences } from "./preferenceService.js";
+
+//======= Defaults =======//
+
+export const DEFAULT_NOTIFICATION_SETTINGS: INotificationSettings = {
+  types: Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, "push"]),
+  ) as Record<NotificationType, NotificationDeliveryMode>,
+  mutes: [],
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  digest: { frequency: "daily", hour: 19 },
+  weeklyEmail: { enabled: false },
+};
+
+export const QUIET_HOURS_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Fill in defaults for users created before notification settings existed
+ */
+export function resolveNotificationSettings(
+  settings?: Partial<INotificationSettings> | null,
+): INotificationSettings {
+  return {
+    types: { ...DEFAULT_NOTIFICATION_SETTINGS.types, ...settings?.types },
+    mutes: settings?.mutes || [],
+    quietHours: {
+      ...DEFAULT_NOTIFICATION_SETTINGS.quietHours,
+      ...settings?.quietHours,
+    },
+    digest: { ...DEFAULT_NOTIFICATION_SETTINGS.digest, ...settings?.digest },
+    weeklyEmail: {
+      ...DEFAULT_NOTIFICATION_SETTINGS.weeklyEmail,
+      ...settings?.weeklyEmail,
+    },
+  };
+}
+
+//======= Rules =======//
+
+/**
+ * Whether the chat/pool the notification is about is muted right now
+ */
+export function isMuted(
+  settings: INotificationSettings,
+  data?: Record<string, unknown>,
+  now: Date = new Date(),
+): boolean {
+  const chatId = data?.chatId?.toString();
+  const poolId = data?.poolId?.toString();
+  if (!chatId && !poolId) return false;
+
+  return settings.mutes.some((mute) => {
+    if (mute.until && mute.until <= now) return false;
+    const targetId = mute.targetId.toString();
+    return mute.targetType === "chat"
+      ? targetId === chatId
+      : targetId === poolId;
+  });
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * If `now` falls inside the user's quiet hours, the instant they end;
+ * otherwise null. Start and end are wall-clock times in the user's timezone.
+ */
+export function getQuietHoursEnd(
+  quietHours: INotificationSettings["quietHours"],
+  timezone: string,
+  now: Date = new Date(),
+): Date | null {
+  if (!quietHours.enabled) return null;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return null;
+
+  const local = getZonedParts(now, timezone);
+  const current = local.hour * 60 + local.minute;
+
+  const wrapsMidnight = start > end;
+  const inside = wrapsMidnight
+    ? current >= start || current < end
+    : current >= start && current < end;
+  if (!inside) return null;
+
+  // Late-evening part of a window that wraps midnight ends tomorrow
+  const dayOffset = wrapsMidnight && current >= start ? 1 : 0;
+  return zonedTimeToUtc(
+    local.year,
+    local.month,
+    local.day + dayOffset,
+    timezone,
+    Math.floor(end / 60),
+    end % 60,
+  );
+}
+
+//======= Delivery Planning =======//
+
+export interface DeliveryPlan {
+  mode: NotificationDeliveryMode;
+  deferUntil?: Date; // push held back until quiet hours end
+}
+
+/**
+ * Decide how a notification reaches each recipient. Muted chats/pools keep
+ * the inbox entry but never push.
+ */
+export async function planDeliveries(
+  notifications: Array<{ userId: string; data?: Record<string, unknown> }>,
+  now: Date = new Date(),
+): Promise<DeliveryPlan[]> {
+  const userIds = [...new Set(notifications.map((n) => n.userId))];
+  const users = await User.find({ _id: { $in: userIds } })
+    .select("preferences notificationSettings")
+    .lean<any[]>();
+
+  const byId = new Map(users.map((user) => [user._id.toString(), user]));
+
+  return notifications.map(({ userId, data }) => {
+    const user = byId.get(userId.toString());
+    const settings = resolveNotificationSettings(user?.notificationSettings);
+    const type = data?.type as NotificationType | undefined;
+
+    let mode: NotificationDeliveryMode =
+      (type && settings.types[type]) || "push";
+    if (mode === "push" && isMuted(settings, data, now)) mode = "in_app";
+    if (mode !== "push") return { mode };
+
+    const { timezone } = resolvePreferences(user?.preferences);
+    const deferUntil = getQuietHoursEnd(settings.quietHours, timezone, now);
+    return deferUntil ? { mode, deferUntil } : { mode };
+  });
+}
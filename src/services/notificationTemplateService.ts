@@ -0,0 +1,149 @@
+import type { NotificationType } from "../models/notificationModel.js";
+import type { IUserPreferences } from "../models/userModel.js";
+import { formatAmount } from "../utils/format.js";
+import { en } from "../locales/en.js";
+import { hi } from "../locales/hi.js";
+
+//======= Types =======//
+
+// What each notification type needs to render (amounts as raw numbers)
+export interface NotificationParams {
+  friend_request: { senderName: string };
+  friend_accepted: { senderName: string };
+  txn_added: { senderName: string; amount: number; chatName?: string };
+  txn_verified: { senderName: string; amount: number };
+  pool_tx_added: {
+    senderName: string;
+    poolName: string;
+    amount: number;
+    direction: "credit" | "debit";
+  };
+  pool_tx_verified: { senderName: string; poolName: string; amount: number };
+  pool_member_added: { senderName: string; poolName: string };
+  pool_member_removed: { senderName: string; poolName: string };
+  group_member_added: { senderName: string; chatName: string };
+  group_member_removed: { senderName: string; chatName: string };
+}
+
+// Same params with amounts already formatted for the recipient
+export type RenderParams<T extends NotificationType> = {
+  [K in keyof NotificationParams[T]]: NotificationParams[T][K] extends number
+    ? string
+    : NotificationParams[T][K];
+};
+
+export interface NotificationText {
+  title: string;
+  body: string;
+}
+
+// One file per language in src/locales
+export interface NotificationStrings {
+  templates: {
+    [T in NotificationType]: (params: RenderParams<T>) => NotificationText;
+  };
+  digest: {
+    title: (frequency: "daily" | "weekly") => string;
+    items: Record<NotificationType, (count: number) => string>;
+  };
+}
+
+/**
+ * Where a tap on the notification opens in the app. Every push carries the
+ * same flat payload: `type`, `screen` and whichever ids the screen needs.
+ */
+export type NotificationScreen =
+  | "chat" // chatId (+ txnId to highlight)
+  | "chats" // chat list
+  | "pool" // poolId (+ txnId to highlight)
+  | "pools" // pool list
+  | "friend_requests"
+  | "notifications"; // inbox
+
+export interface NotificationRefs {
+  senderId?: string;
+  chatId?: string;
+  poolId?: string;
+  txnId?: string;
+}
+
+export interface NotificationPayload extends NotificationRefs {
+  type: NotificationType | "digest";
+  screen: NotificationScreen;
+  [key: string]: unknown;
+}
+
+//======= Registry =======//
+
+const LOCALES: Record<string, NotificationStrings> = { en, hi };
+const FALLBACK_LANGUAGE = "en";
+
+const SCREENS: Record<NotificationType, NotificationScreen> = {
+  friend_request: "friend_requests",
+  friend_accepted: "chat",
+  txn_added: "chat",
+  txn_verified: "chat",
+  pool_tx_added: "pool",
+  pool_tx_verified: "pool",
+  pool_member_added: "pool",
+  pool_member_removed: "pools", // no longer a member, can't open the pool
+  group_member_added: "chat",
+  group_member_removed: "chats",
+};
+
+/**
+ * Strings for a BCP 47 locale ("hi-IN" → Hindi), English when unsupported
+ */
+export function getNotificationStrings(locale?: string): NotificationStrings {
+  const language = (locale || FALLBACK_LANGUAGE).split("-")[0].toLowerCase();
+  return LOCALES[language] || LOCALES[FALLBACK_LANGUAGE];
+}
+
+export const SUPPORTED_NOTIFICATION_LANGUAGES = Object.keys(LOCALES);
+
+//======= Rendering =======//
+
+/**
+ * Title, body and deep-link payload of a notification, in the recipient's
+ * language with amounts in their currency / number format
+ */
+export function renderNotification<T extends NotificationType>(
+  type: T,
+  params: NotificationParams[T],
+  refs: NotificationRefs,
+  prefs: IUserPreferences,
+): NotificationText & { data: NotificationPayload } {
+  const formatted = Object.fromEntries(
+    Object.entries(params).map(([key, value]) => [
+      key,
+      typeof value === "number" ? formatAmount(value, prefs) : value,
+    ]),
+  ) as RenderParams<T>;
+
+  const template = getNotificationStrings(prefs.locale).templates[type];
+  const { title, body } = template(formatted);
+
+  // Only the ids that were given — undefined keys would end up in the push
+  const ids = Object.fromEntries(
+    Object.entries(refs).filter(([, value]) => value !== undefined),
+  );
+
+  return { title, body, data: { type, screen: SCREENS[type], ...ids } };
+}
+
+/**
+ * Title and body of a digest push summarising held notifications
+ */
+export function renderDigest(
+  frequency: "daily" | "weekly",
+  counts: Map<NotificationType, number>,
+  prefs: IUserPreferences,
+): NotificationText {
+  const strings = getNotificationStrings(prefs.locale).digest;
+  return {
+    title: strings.title(frequency),
+    body: [...counts]
+      .map(([type, count]) => strings.items[type]?.(count) ?? `${count}`)
+      .join(", "),
+  };
+}
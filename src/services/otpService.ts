@@ -0,0 +1,163 @@
+import { hash, compare } from "bcrypt";
+import { randomInt } from "crypto";
+import {
+  OtpChallenge,
+  IOtpChallenge,
+  OtpPurpose,
+} from "../models/otpChallengeModel.js";
+import ErrorHandler from "../middlewares/Errorhandler.js";
+
+const OTP_TTL_MS = 10 * 60 * 1000; // 10 minutes to enter the code
+const VERIFIED_TTL_MS = 30 * 60 * 1000; // 30 minutes to finish the flow after verifying
+
+// Wrong guesses allowed before the OTP is thrown away
+const MAX_OTP_ATTEMPTS = 5;
+
+// Helper: generate a 6-digit OTP
+const generateOTP = (): string => randomInt(100000, 1000000).toString();
+
+/**
+ * Emails are compared case-insensitively; phones as-is
+ */
+export const normalizeTarget = (target: string): string =>
+  target.includes("@") ? target.toLowerCase().trim() : target.trim();
+
+/**
+ * Create (or replace) the challenge for a purpose + target.
+ * Returns the plain code so the caller can deliver it.
+ */
+export async function issueOtpChallenge(
+  purpose: OtpPurpose,
+  target: string,
+  userId?: string,
+): Promise<string> {
+  const code = generateOTP();
+
+  await OtpChallenge.updateOne(
+    { purpose, target: normalizeTarget(target) },
+    {
+      $set: {
+        codeHash: await hash(code, 10),
+        attempts: 0,
+        expiresAt: new Date(Date.now() + OTP_TTL_MS),
+        ...(userId && { userId }),
+      },
+      $unset: { verifiedAt: "", ...(!userId && { userId: "" }) },
+    },
+    { upsert: true },
+  );
+
+  return code;
+}
+
+/**
+ * Check a code against its challenge, counting wrong guesses.
+ * Throws an ErrorHandler (caught by TryCatch) when the code is not accepted.
+ * On success the challenge is marked verified and kept for the next step.
+ */
+export async function verifyOtpChallenge(
+  purpose: OtpPurpose,
+  target: string,
+  code: string,
+  userId?: string,
+): Promise<IOtpChallenge> {
+  const challenge = await OtpChallenge.findOne({
+    purpose,
+    target: normalizeTarget(target),
+  });
+
+  if (
+    !challenge ||
+    (userId && challenge.userId?.toString() !== userId)
+  ) {
+    throw new ErrorHandler("OTP not found. Please request a new OTP.", 400);
+  }
+
+  // TTL monitor runs about once a minute, so check expiry explicitly
+  if (challenge.expiresAt < new Date()) {
+    throw new ErrorHandler("OTP has expired. Please request a new one.", 400);
+  }
+
+  // Claim the attempt before comparing, so parallel guesses can't all
+  // read the same count and go past the limit
+  const claimed = await OtpChallenge.findOneAndUpdate(
+    { _id: challenge._id, attempts: { $lt: MAX_OTP_ATTEMPTS } },
+    { $inc: { attempts: 1 } },
+    { new: true },
+  );
+  if (!claimed) {
+    throw new ErrorHandler(
+      "Too many incorrect attempts. Please request a new OTP.",
+      429,
+    );
+  }
+
+  const isValid = await compare(code, claimed.codeHash);
+  if (!isValid) {
+    if (claimed.attempts >= MAX_OTP_ATTEMPTS) {
+      // Invalidate the OTP so it can't be brute-forced within its window
+      await claimed.deleteOne();
+      throw new ErrorHandler(
+        "Too many incorrect attempts. Please request a new OTP.",
+        429,
+      );
+    }
+
+    throw new ErrorHandler(
+      `Invalid OTP. ${MAX_OTP_ATTEMPTS - claimed.attempts} attempt(s) left`,
+      400,
+    );
+  }
+
+  claimed.verifiedAt = new Date();
+  claimed.expiresAt = new Date(Date.now() + VERIFIED_TTL_MS);
+  await claimed.save();
+
+  return claimed;
+}
+
+// A verified challenge that is still within its window
+const verifiedChallengeFilter = (purpose: OtpPurpose, target: string) => ({
+  purpose,
+  target: normalizeTarget(target),
+  verifiedAt: { $exists: true },
+  expiresAt: { $gt: new Date() },
+});
+
+/**
+ * Whether a challenge was verified and can still be used, without using it
+ * up (check every challenge a step needs before consuming any of them)
+ */
+export async function hasVerifiedChallenge(
+  purpose: OtpPurpose,
+  target: string,
+): Promise<boolean> {
+  const challenge = await OtpChallenge.exists(
+    verifiedChallengeFilter(purpose, target),
+  );
+  return !!challenge;
+}
+
+/**
+ * Use up a challenge that was already verified (e.g. register after verify-otp).
+ * Returns false if there is no verified, unexpired challenge.
+ */
+export async function consumeVerifiedChallenge(
+  purpose: OtpPurpose,
+  target: string,
+): Promise<boolean> {
+  const challenge = await OtpChallenge.findOneAndDelete(
+    verifiedChallengeFilter(purpose, target),
+  );
+  return !!challenge;
+}
+
+/**
+ * Drop a challenge once the flow it protects has completed
+ */
+export async function deleteOtpChallenge(
+  purpose: OtpPurpose,
+  target: string,
+): Promise<void> {
+  await OtpChallenge.deleteOne({ purpose, target: normalizeTarget(target) });
+}
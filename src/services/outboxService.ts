@@ -0,0 +1,201 @@
+import { NotificationOutbox } from "../models/notificationOutboxModel.js";
+import { Notification } from "../models/notificationModel.js";
+import { getPushTokens, sendPushMessages } from "./pushService.js";
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 30 * 1000; // 30s, 1m, 2m, 4m, 8m...
+const MAX_BACKOFF_MS = 60 * 60 * 1000; // 1 hour
+const LEASE_MS = 60 * 1000; // a crashed worker's claim expires after this
+const BATCH_SIZE = 50;
+
+export const getBackoffMs = (attempts: number) =>
+  Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+/**
+ * Queue pushes for already-created Notification records.
+ * The worker is poked right away, so delivery normally happens within a second.
+ */
+export async function enqueuePushes(
+  entries: Array<{
+    notificationId: unknown;
+    recipient: string;
+    title: string;
+    body: string;
+    data?: Record<string, unknown>;
+    batchedNotificationIds?: unknown[];
+    nextAttemptAt?: Date; // deferred delivery, e.g. until quiet hours end
+  }>,
+): Promise<void> {
+  if (entries.length === 0) return;
+  await NotificationOutbox.insertMany(entries);
+  setImmediate(() => {
+    processNotificationOutbox().catch((error) =>
+      console.error("Notification outbox processing failed:", error),
+    );
+  });
+}
+
+// Claim one due entry (pending, or processing with an expired lease)
+async function claimNext() {
+  const now = new Date();
+  return NotificationOutbox.findOneAndUpdate(
+    {
+      $or: [
+        { status: "pending", nextAttemptAt: { $lte: now } },
+        { status: "processing", lockedUntil: { $lte: now } },
+      ],
+    },
+    {
+      $set: {
+        status: "processing",
+        lockedUntil: new Date(now.getTime() + LEASE_MS),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { nextAttemptAt: 1 }, new: true },
+  );
+}
+
+// The inbox records an entry reports its delivery status to
+const notificationFilter = (entry: any) => ({
+  _id: {
+    $in: [entry.notificationId, ...(entry.batchedNotificationIds || [])],
+  },
+});
+
+async function deliver(entry: any): Promise<void> {
+  const recipient = entry.recipient.toString();
+  const tokens = (await getPushTokens([recipient])).get(recipient) || [];
+
+  // No devices: nothing to retry, the in-app inbox still has it
+  if (tokens.length === 0) {
+    await Promise.all([
+      NotificationOutbox.updateOne(
+        { _id: entry._id },
+        { $set: { status: "sent" }, $unset: { lockedUntil: "" } },
+      ),
+      Notification.updateMany(
+        notificationFilter(entry),
+        {
+          $set: { deliveryStatus: "no_device" },
+          $inc: { deliveryAttempts: 1 },
+        },
+      ),
+    ]);
+    return;
+  }
+
+  const { accepted, lastError } = await sendPushMessages(
+    tokens.map((token) => ({
+      userId: recipient,
+      token,
+      title: entry.title,
+      body: entry.body,
+      data: entry.data,
+    })),
+  );
+
+  // Delivered to at least one device (pruned tokens don't count as failures)
+  if (accepted > 0 || !lastError) {
+    await Promise.all([
+      NotificationOutbox.updateOne(
+        { _id: entry._id },
+        { $set: { status: "sent" }, $unset: { lockedUntil: "" } },
+      ),
+      Notification.updateMany(
+        notificationFilter(entry),
+        {
+          $set: {
+            deliveryStatus: accepted > 0 ? "sent" : "no_device",
+            ...(accepted > 0 && { deliveredAt: new Date() }),
+          },
+          $inc: { deliveryAttempts: 1 },
+        },
+      ),
+    ]);
+    return;
+  }
+
+  await recordFailure(entry, lastError);
+}
+
+// Failed attempt: retry with backoff, or dead-letter after MAX_ATTEMPTS
+async function recordFailure(entry: any, lastError: string): Promise<void> {
+  const dead = entry.attempts >= MAX_ATTEMPTS;
+  await Promise.all([
+    NotificationOutbox.updateOne(
+      { _id: entry._id },
+      {
+        $set: {
+          status: dead ? "dead" : "pending",
+          lastError,
+          nextAttemptAt: new Date(Date.now() + getBackoffMs(entry.attempts)),
+        },
+        $unset: { lockedUntil: "" },
+      },
+    ),
+    Notification.updateMany(
+      notificationFilter(entry),
+      {
+        $set: {
+          deliveryStatus: dead ? "failed" : "pending",
+          lastDeliveryError: lastError,
+        },
+        $inc: { deliveryAttempts: 1 },
+      },
+    ),
+  ]);
+}
+
+let running = false;
+
+/**
+ * Deliver everything that is due. Safe to call often: one run at a time per
+ * process, and entries are claimed atomically across instances.
+ */
+export async function processNotificationOutbox(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    for (let i = 0; i < BATCH_SIZE; i++) {
+      const entry = await claimNext();
+      if (!entry) break;
+
+      // Reclaimed after its leases kept expiring (worker died mid-delivery)
+      if (entry.attempts > MAX_ATTEMPTS) {
+        await recordFailure(entry, "Delivery did not complete");
+        continue;
+      }
+
+      try {
+        await deliver(entry);
+      } catch (error: any) {
+        // Unexpected error: counts as a failed attempt like a provider error
+        console.error(`Outbox delivery ${entry._id} failed:`, error);
+        await recordFailure(entry, error?.message || String(error)).catch(
+          // Can't even record it (e.g. DB down): the lease expires and the
+          // claim counts the attempt
+          (recordError) =>
+            console.error(
+              `Outbox entry ${entry._id} could not be updated:`,
+              recordError,
+            ),
+        );
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Put dead-lettered entries back in the queue (e.g. after an Expo outage)
+ */
+export async function retryDeadNotifications(): Promise<number> {
+  const result = await NotificationOutbox.updateMany(
+    { status: "dead" },
+    { $set: { status: "pending", attempts: 0, nextAttemptAt: new Date() } },
+  );
+  return result.modifiedCount;
+}
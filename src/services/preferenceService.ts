@@ -0,0 +1,78 @@
+import { User, IUserPreferences } from "../models/userModel.js";
+import { DEFAULT_TIMEZONE } from "../utils/period.js";
+
+// Matches the schema defaults; also used for users saved before preferences existed
+export const DEFAULT_PREFERENCES: IUserPreferences = {
+  currency: "INR",
+  timezone: DEFAULT_TIMEZONE,
+  locale: "en-IN",
+  weekStart: 1,
+  numberFormat: "locale",
+};
+
+//======= Validators (used by the zod schema) =======//
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidCurrency(currency: string): boolean {
+  try {
+    new Intl.NumberFormat("en", { style: "currency", currency });
+    return /^[A-Za-z]{3}$/.test(currency);
+  } catch {
+    return false;
+  }
+}
+
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+//======= Lookups =======//
+
+/**
+ * Fill in defaults for any missing field (lean documents skip schema defaults)
+ */
+export function resolvePreferences(
+  preferences?: Partial<IUserPreferences> | null,
+): IUserPreferences {
+  return { ...DEFAULT_PREFERENCES, ...(preferences || {}) };
+}
+
+export async function getUserPreferences(
+  userId: string,
+): Promise<IUserPreferences> {
+  const user = await User.findById(userId)
+    .select("preferences")
+    .lean<{ preferences?: Partial<IUserPreferences> }>();
+  return resolvePreferences(user?.preferences);
+}
+
+/**
+ * Preferences for many users in one query (bulk notifications)
+ */
+export async function getPreferencesForUsers(
+  userIds: string[],
+): Promise<Map<string, IUserPreferences>> {
+  const users = await User.find({ _id: { $in: userIds } })
+    .select("_id preferences")
+    .lean();
+
+  const map = new Map<string, IUserPreferences>(
+    users.map((u: any) => [u._id.toString(), resolvePreferences(u.preferences)]),
+  );
+  for (const id of userIds) {
+    if (!map.has(id)) map.set(id, { ...DEFAULT_PREFERENCES });
+  }
+  return map;
+}
@@ -0,0 +1,200 @@
+import { Expo, ExpoPushMessage } from "expo-server-sdk";
+import { User } from "../models/userModel.js";
+import { DeviceToken } from "../models/deviceTokenModel.js";
+import { PushTicket } from "../models/pushTicketModel.js";
+
+// Shared Expo client for every push we send
+const expo = new Expo();
+
+// Receipts are ready a few minutes after sending — don't ask too early
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+// Tickets checked per run (Expo takes receipt ids 1000 at a time)
+const RECEIPT_BATCH_SIZE = 1000;
+
+export interface PushMessage {
+  userId?: string;
+  token: string;
+  title?: string;
+  body?: string;
+  data?: Record<string, unknown>;
+}
+
+//======= Tokens =======//
+
+/**
+ * Register (or move) a device token for a user and refresh its lastSeenAt
+ */
+export async function registerDeviceToken(
+  userId: string,
+  token: string,
+  platform?: string,
+  appVersion?: string,
+) {
+  await DeviceToken.updateOne(
+    { token },
+    {
+      $set: {
+        userId,
+        lastSeenAt: new Date(),
+        ...(platform && { platform }),
+        ...(appVersion && { appVersion }),
+      },
+    },
+    { upsert: true },
+  );
+}
+
+export async function unregisterDeviceToken(userId: string, token: string) {
+  const result = await DeviceToken.deleteOne({ userId, token });
+  return result.deletedCount > 0;
+}
+
+/**
+ * All valid push tokens per user. Includes the legacy single User.pushToken
+ * for users whose app has not re-registered since multi-device support.
+ */
+export async function getPushTokens(
+  userIds: string[],
+): Promise<Map<string, string[]>> {
+  const [devices, legacyUsers] = await Promise.all([
+    DeviceToken.find({ userId: { $in: userIds } })
+      .select("userId token")
+      .lean(),
+    User.find({ _id: { $in: userIds }, pushToken: { $exists: true, $ne: "" } })
+      .select("_id pushToken")
+      .lean(),
+  ]);
+
+  const tokens = new Map<string, Set<string>>();
+  const add = (userId: string, token?: string) => {
+    if (!token || !Expo.isExpoPushToken(token)) return;
+    if (!tokens.has(userId)) tokens.set(userId, new Set());
+    tokens.get(userId)!.add(token);
+  };
+
+  for (const d of devices as any[]) add(d.userId.toString(), d.token);
+  for (const u of legacyUsers as any[]) add(u._id.toString(), u.pushToken);
+
+  return new Map(
+    Array.from(tokens.entries()).map(([userId, set]) => [userId, [...set]]),
+  );
+}
+
+/**
+ * Forget a token Expo says is dead (app uninstalled, token rotated)
+ */
+async function pruneToken(token: string) {
+  await Promise.all([
+    DeviceToken.deleteOne({ token }),
+    User.updateMany({ pushToken: token }, { $unset: { pushToken: "" } }),
+  ]);
+  console.log(`Pruned unregistered push token …${token.slice(-6)}`);
+}
+
+//======= Sending =======//
+
+/**
+ * Send messages via Expo (chunked). Tickets are stored for the receipt job;
+ * tokens rejected outright as DeviceNotRegistered are pruned immediately.
+ * `failed` counts messages worth retrying (network/Expo errors).
+ */
+export async function sendPushMessages(
+  messages: PushMessage[],
+): Promise<{ accepted: number; failed: number; lastError?: string }> {
+  const expoMessages: ExpoPushMessage[] = messages.map((m) => ({
+    to: m.token,
+    sound: "default",
+    title: m.title,
+    body: m.body,
+    data: m.data || {},
+  }));
+
+  let accepted = 0;
+  let failed = 0;
+  let lastError: string | undefined;
+  let offset = 0;
+
+  for (const chunk of expo.chunkPushNotifications(expoMessages)) {
+    const sent = messages.slice(offset, offset + chunk.length);
+    offset += chunk.length;
+
+    try {
+      const tickets = await expo.sendPushNotificationsAsync(chunk);
+      const pending = [];
+
+      for (let i = 0; i < tickets.length; i++) {
+        const ticket = tickets[i];
+        if (ticket.status === "ok") {
+          accepted++;
+          pending.push({
+            ticketId: ticket.id,
+            token: sent[i].token,
+            userId: sent[i].userId,
+          });
+        } else if (ticket.details?.error === "DeviceNotRegistered") {
+          await pruneToken(sent[i].token);
+        } else {
+          console.error(`Push ticket error: ${ticket.message}`);
+          failed++;
+          lastError = ticket.message;
+        }
+      }
+
+      if (pending.length > 0) {
+        await PushTicket.insertMany(pending, { ordered: false });
+      }
+    } catch (error: any) {
+      console.error("Error sending push notifications:", error);
+      failed += chunk.length;
+      lastError = error?.message || String(error);
+    }
+  }
+
+  return { accepted, failed, lastError };
+}
+
+//======= Receipt Job =======//
+
+/**
+ * Check receipts for tickets older than RECEIPT_DELAY_MS and prune tokens
+ * reported as DeviceNotRegistered. Run periodically; each run takes the
+ * oldest RECEIPT_BATCH_SIZE tickets, so a backlog drains over a few runs.
+ */
+export async function processPushReceipts(): Promise<void> {
+  const tickets = await PushTicket.find({
+    createdAt: { $lte: new Date(Date.now() - RECEIPT_DELAY_MS) },
+  })
+    .sort({ createdAt: 1 })
+    .limit(RECEIPT_BATCH_SIZE)
+    .select("ticketId token")
+    .lean();
+
+  if (tickets.length === 0) return;
+
+  const tokenByTicket = new Map<string, string>(
+    tickets.map((t: any) => [t.ticketId, t.token]),
+  );
+
+  for (const ids of expo.chunkPushNotificationReceiptIds([
+    ...tokenByTicket.keys(),
+  ])) {
+    try {
+      const receipts = await expo.getPushNotificationReceiptsAsync(ids);
+
+      for (const [ticketId, receipt] of Object.entries(receipts)) {
+        if (receipt.status !== "error") continue;
+
+        if (receipt.details?.error === "DeviceNotRegistered") {
+          await pruneToken(tokenByTicket.get(ticketId)!);
+        } else {
+          console.error(`Push receipt error: ${receipt.message}`);
+        }
+      }
+
+      // Checked (or unknown to Expo any more) — either way we're done with them
+      await PushTicket.deleteMany({ ticketId: { $in: ids } });
+    } catch (error) {
+      console.error("Error fetching push receipts:", error);
+    }
+  }
+}
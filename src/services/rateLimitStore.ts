@@ -0,0 +1,74 @@
+import { RateLimit } from "../models/rateLimitModel.js";
+
+export interface RateLimitHit {
+  count: number; // hits in the current window, including this one
+  resetAt: Date; // when the window ends
+}
+
+/**
+ * Storage backend for the rate limiter.
+ * Implementations must count hits per key inside a fixed window.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Mongo-backed store — counters are shared across API instances.
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date();
+
+    // 1. Bump the counter if the current window is still open
+    const current = await RateLimit.findOneAndUpdate(
+      { key, expiresAt: { $gt: now } },
+      { $inc: { count: 1 } },
+      { new: true },
+    ).lean<{ count: number; expiresAt: Date }>();
+
+    if (current) {
+      return { count: current.count, resetAt: current.expiresAt };
+    }
+
+    // 2. No open window (first hit, or TTL monitor hasn't removed the old one yet)
+    const resetAt = new Date(now.getTime() + windowMs);
+    await RateLimit.updateOne(
+      { key },
+      { $set: { count: 1, expiresAt: resetAt } },
+      { upsert: true },
+    );
+
+    return { count: 1, resetAt };
+  }
+
+  async reset(key: string): Promise<void> {
+    await RateLimit.deleteOne({ key });
+  }
+}
+
+/**
+ * In-memory store — for tests and single-process local development.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, RateLimitHit>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const existing = this.hits.get(key);
+
+    if (existing && existing.resetAt.getTime() > now) {
+      existing.count += 1;
+      return { ...existing };
+    }
+
+    const hit = { count: 1, resetAt: new Date(now + windowMs) };
+    this.hits.set(key, hit);
+    return { ...hit };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+}
@@ -0,0 +1,91 @@
+import { Request } from "express";
+import { createHash } from "crypto";
+import mongoose from "mongoose";
+import { Session, ISession } from "../models/sessionModel.js";
+
+// Refresh tokens (and therefore sessions) live for 30 days since last refresh
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// JWT audiences keep access and refresh tokens from being used interchangeably
+export const ACCESS_TOKEN_AUDIENCE = "finzz:access";
+export const REFRESH_TOKEN_AUDIENCE = "finzz:refresh";
+
+const PLATFORMS = ["ios", "android", "web"] as const;
+
+/**
+ * Hash a refresh token before storing / comparing it.
+ * Tokens are long random JWTs, so a fast sha256 is enough (no bcrypt needed).
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Read device details sent by the app.
+ * Body fields win over headers (X-Device-Name / X-Platform).
+ */
+export function getDeviceInfo(req: Request) {
+  const rawName = req.body?.deviceName || req.headers["x-device-name"];
+  const rawPlatform = String(
+    req.body?.platform || req.headers["x-platform"] || "",
+  ).toLowerCase();
+
+  return {
+    deviceName: typeof rawName === "string" && rawName ? rawName : undefined,
+    platform: (PLATFORMS as readonly string[]).includes(rawPlatform)
+      ? (rawPlatform as ISession["platform"])
+      : "unknown",
+    ip: req.ip,
+    userAgent: req.headers["user-agent"],
+  };
+}
+
+/**
+ * Find a session that can still be used (not revoked, not expired).
+ */
+export async function findActiveSession(
+  sessionId: mongoose.Types.ObjectId | string,
+) {
+  if (!mongoose.isValidObjectId(sessionId)) return null;
+
+  return Session.findOne({
+    _id: sessionId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+}
+
+/**
+ * Revoke a single session belonging to a user.
+ * Returns false if no such active session exists.
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  reason: ISession["revokedReason"] = "revoked",
+): Promise<boolean> {
+  const result = await Session.updateOne(
+    { _id: sessionId, userId, revokedAt: { $exists: false } },
+    { revokedAt: new Date(), revokedReason: reason },
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one (the caller's).
+ */
+export async function revokeAllSessions(
+  userId: string,
+  exceptSessionId?: string,
+): Promise<number> {
+  const filter: any = { userId, revokedAt: { $exists: false } };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const result = await Session.updateMany(filter, {
+    revokedAt: new Date(),
+    revokedReason: "revoked",
+  });
+  return result.modifiedCount;
+}
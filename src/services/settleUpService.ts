@@ -0,0 +1,231 @@
+import mongoose from "mongoose";
+import { Chat } from "../models/chatModel.js";
+import { getOwedBalancesByChat, OwedBalances } from "./summaryService.js";
+
+//======= Types =======//
+
+export interface SettlePayment {
+  from: string; // pays
+  to: string; // gets paid
+  amount: number;
+}
+
+export interface FriendPosition {
+  userId: string;
+  name: string;
+  avatar?: string;
+  chatId: string;
+  balance: number; // positive = they owe you, negative = you owe them
+}
+
+export interface GroupPosition {
+  chatId: string;
+  name: string;
+  balance: number; // positive = the group owes you, negative = you owe it
+  payments: SettlePayment[]; // only the ones involving you
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+//======= Simplification =======//
+
+type Position = { userId: string; cents: number }; // positive = is owed
+
+// Above this many people with a balance the exact search (2^n states) is
+// too slow for a request, and the greedy result is used as is
+const EXACT_SIMPLIFY_LIMIT = 15;
+
+/**
+ * Payments that settle one set of positions: exact matches (someone owes
+ * exactly what another is owed) first, then the largest debtor pays the
+ * largest creditor. At most k - 1 payments for k people.
+ */
+function settleGreedily(positions: Position[]): SettlePayment[] {
+  const creditors = positions
+    .filter((p) => p.cents > 0)
+    .map((p) => ({ ...p }));
+  const debtors = positions
+    .filter((p) => p.cents < 0)
+    .map((p) => ({ userId: p.userId, cents: -p.cents }));
+
+  const payments: SettlePayment[] = [];
+  const pay = (debtor: Position, creditor: Position, cents: number) => {
+    payments.push({
+      from: debtor.userId,
+      to: creditor.userId,
+      amount: cents / 100,
+    });
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+  };
+
+  // 1. Exact matches settle two people with one payment
+  for (const debtor of debtors) {
+    const creditor = creditors.find((c) => c.cents === debtor.cents);
+    if (creditor) pay(debtor, creditor, debtor.cents);
+  }
+
+  // 2. Largest debtor pays largest creditor
+  const largest = (list: Position[]) =>
+    list
+      .filter((entry) => entry.cents > 0)
+      .sort((a, b) => b.cents - a.cents)[0];
+  while (true) {
+    const debtor = largest(debtors);
+    const creditor = largest(creditors);
+    if (!debtor || !creditor) break; // a lone leftover is only rounding
+    pay(debtor, creditor, Math.min(debtor.cents, creditor.cents));
+  }
+
+  return payments;
+}
+
+/**
+ * Split positions into as many groups that each sum to zero as possible.
+ * A group of k settles in k - 1 payments and nothing can do better, so
+ * n people need n - (number of groups) payments at least — this finds
+ * the split that reaches it. dp over subsets: best[mask] is the most
+ * zero-sum groups the members in mask can form.
+ */
+function splitIntoZeroSumGroups(positions: Position[]): Position[][] {
+  const n = positions.length;
+  const full = (1 << n) - 1;
+  const sum = new Array<number>(full + 1).fill(0);
+  const best = new Array<number>(full + 1).fill(0);
+  const lastAdded = new Array<number>(full + 1).fill(-1); // best last member
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      const rest = mask ^ (1 << i);
+      sum[mask] = sum[rest] + positions[i].cents;
+      if (lastAdded[mask] === -1 || best[rest] > best[mask]) {
+        best[mask] = best[rest];
+        lastAdded[mask] = i;
+      }
+    }
+    if (sum[mask] === 0) best[mask] += 1;
+  }
+
+  // Walk the best order back; each time the running total returns to zero
+  // a group is closed (whatever is left at the end is rounding)
+  const order: number[] = [];
+  for (let mask = full; mask; mask ^= 1 << lastAdded[mask]) {
+    order.unshift(lastAdded[mask]);
+  }
+
+  const groups: Position[][] = [];
+  let group: Position[] = [];
+  let total = 0;
+  for (const i of order) {
+    group.push(positions[i]);
+    total += positions[i].cents;
+    if (total === 0) {
+      groups.push(group);
+      group = [];
+    }
+  }
+  if (group.length) groups.push(group);
+  return groups;
+}
+
+/**
+ * The fewest payments that clear every balance. Up to
+ * EXACT_SIMPLIFY_LIMIT people with a balance the result is minimal;
+ * larger groups fall back to the greedy settlement (at most n - 1).
+ */
+export function simplifyDebts(balances: OwedBalances): SettlePayment[] {
+  const positions: Position[] = Object.entries(balances)
+    .map(([userId, balance]) => ({ userId, cents: toCents(balance) }))
+    .filter((p) => p.cents !== 0);
+
+  if (positions.length > EXACT_SIMPLIFY_LIMIT) {
+    return settleGreedily(positions);
+  }
+  return splitIntoZeroSumGroups(positions).flatMap(settleGreedily);
+}
+
+//======= Settle Up =======//
+
+/**
+ * Where a user stands with every friend (1:1 chats) and in each group chat,
+ * with the payments that would settle the groups
+ */
+export async function getSettleUpOverview(userId: string): Promise<{
+  friends: FriendPosition[];
+  groups: GroupPosition[];
+  totals: { owedToYou: number; youOwe: number };
+}> {
+  const chats = await Chat.find({ members: userId })
+    .select("name groupChat members")
+    .populate("members", "name avatar")
+    .lean<
+      {
+        _id: mongoose.Types.ObjectId;
+        name?: string;
+        groupChat?: boolean;
+        members: { _id: any; name: string; avatar?: string }[];
+      }[]
+    >();
+  const balancesByChat = await getOwedBalancesByChat(
+    chats.map((chat) => chat._id),
+  );
+
+  const friends: FriendPosition[] = [];
+  const groups: GroupPosition[] = [];
+
+  for (const chat of chats) {
+    const chatId = chat._id.toString();
+    const balances = balancesByChat.get(chatId) || {};
+    const balance = balances[userId] || 0;
+
+    if (chat.groupChat) {
+      groups.push({
+        chatId,
+        name: chat.name || "",
+        balance,
+        payments: simplifyDebts(balances).filter(
+          (p) => p.from === userId || p.to === userId,
+        ),
+      });
+      continue;
+    }
+
+    const friend = chat.members.find((m) => m._id.toString() !== userId);
+    if (!friend) continue;
+    friends.push({
+      userId: friend._id.toString(),
+      name: friend.name,
+      avatar: friend.avatar,
+      chatId,
+      balance,
+    });
+  }
+
+  // Biggest balances first, settled ones last
+  const byBalance = (a: { balance: number }, b: { balance: number }) =>
+    Math.abs(b.balance) - Math.abs(a.balance);
+  friends.sort(byBalance);
+  groups.sort(byBalance);
+
+  const cents = [...friends, ...groups].map((p) => toCents(p.balance));
+  return {
+    friends,
+    groups,
+    totals: {
+      owedToYou: cents.filter((c) => c > 0).reduce((a, b) => a + b, 0) / 100,
+      youOwe: -cents.filter((c) => c < 0).reduce((a, b) => a + b, 0) / 100,
+    },
+  };
+}
+
+/**
+ * Every member's balance in a group chat and the payments that clear it
+ */
+export async function getGroupSettleUp(
+  chatId: mongoose.Types.ObjectId,
+): Promise<{ balances: OwedBalances; payments: SettlePayment[] }> {
+  const byChat = await getOwedBalancesByChat([chatId]);
+  const balances = byChat.get(chatId.toString()) || {};
+  return { balances, payments: simplifyDebts(balances) };
+}
@@ -0,0 +1,164 @@
+import { appendFile } from "fs/promises";
+import axios from "axios";
+import {
+  SMS_DRIVER,
+  SMS_LOG_FILE,
+  TWILIO_ACCOUNT_SID,
+  TWILIO_AUTH_TOKEN,
+  TWILIO_FROM,
+} from "../config/envVariables.js";
+import ErrorHandler from "../middlewares/Errorhandler.js";
+
+const APP_NAME = "Finzz";
+
+/**
+ * Anything that can deliver a text message.
+ * Plug a real gateway in with setSmsProvider().
+ */
+export interface SmsProvider {
+  name: string;
+  delivers: boolean; // reaches a real phone (phone OTPs can be required)
+  send(to: string, body: string): Promise<void>;
+}
+
+// Codes never reach the server log
+const redactCodes = (body: string) => body.replace(/\d{4,}/g, "••••••");
+
+// Prints messages to the server log, codes redacted (local development —
+// use the file driver to read codes back)
+class ConsoleSmsProvider implements SmsProvider {
+  name = "console";
+  delivers = false;
+
+  async send(to: string, body: string): Promise<void> {
+    console.log(`📱 [SMS → ${to}] ${redactCodes(body)}`);
+  }
+}
+
+// Appends messages to a file so they can be read back (local development, tests)
+class FileSmsProvider implements SmsProvider {
+  name = "file";
+  delivers = false;
+
+  constructor(private filePath: string) {}
+
+  async send(to: string, body: string): Promise<void> {
+    const line = JSON.stringify({ to, body, sentAt: new Date() });
+    await appendFile(this.filePath, line + "\n");
+  }
+}
+
+// Sends through Twilio's Messages API
+class TwilioSmsProvider implements SmsProvider {
+  name = "twilio";
+  delivers = true;
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string,
+  ) {}
+
+  async send(to: string, body: string): Promise<void> {
+    const form = new URLSearchParams({ To: to, Body: body });
+    // A Messaging Service SID picks the sender itself
+    form.set(
+      this.from.startsWith("MG") ? "MessagingServiceSid" : "From",
+      this.from,
+    );
+    await axios.post(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      form,
+      {
+        auth: { username: this.accountSid, password: this.authToken },
+        timeout: 10 * 1000,
+      },
+    );
+  }
+}
+
+// Production without a gateway: refuse rather than pretend to deliver
+class UnconfiguredSmsProvider implements SmsProvider {
+  name = "unconfigured";
+  delivers = false;
+
+  async send(): Promise<void> {
+    throw new Error(
+      "No SMS gateway configured. Set SMS_DRIVER=twilio or plug one in with setSmsProvider()",
+    );
+  }
+}
+
+const createSmsProvider = (): SmsProvider => {
+  if (SMS_DRIVER === "twilio") {
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM) {
+      throw new Error(
+        'SMS_DRIVER "twilio" needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM',
+      );
+    }
+    return new TwilioSmsProvider(
+      TWILIO_ACCOUNT_SID,
+      TWILIO_AUTH_TOKEN,
+      TWILIO_FROM,
+    );
+  }
+
+  if (SMS_DRIVER !== "console" && SMS_DRIVER !== "file") {
+    throw new Error(
+      `Unknown SMS_DRIVER "${SMS_DRIVER}" (expected "twilio", "console" or "file")`,
+    );
+  }
+
+  // Neither local driver delivers: phone OTPs can't be sent, so
+  // registration doesn't ask for one (see smsDelivers)
+  if (process.env.NODE_ENV === "production") {
+    console.error(
+      `❌ SMS driver "${SMS_DRIVER}" does not deliver real messages. Phone OTPs are off until SMS_DRIVER=twilio is configured.`,
+    );
+    return new UnconfiguredSmsProvider();
+  }
+
+  return SMS_DRIVER === "file"
+    ? new FileSmsProvider(SMS_LOG_FILE)
+    : new ConsoleSmsProvider();
+};
+
+let provider: SmsProvider = createSmsProvider();
+
+/**
+ * Replace the active SMS provider (real gateway, test double, ...)
+ */
+export const setSmsProvider = (smsProvider: SmsProvider) => {
+  provider = smsProvider;
+};
+
+/**
+ * Whether phone OTPs actually reach the user. Local drivers count in
+ * development, where the code is read from the log or file
+ */
+export const smsDelivers = () =>
+  provider.delivers || process.env.NODE_ENV !== "production";
+
+export const sendOTPSms = async (
+  to: string,
+  otp: string,
+  purpose: "verification" | "login" = "verification",
+): Promise<void> => {
+  const action =
+    purpose === "login" ? "sign in to" : "verify your phone number on";
+
+  const body = `${otp} is your OTP to ${action} ${APP_NAME}. It expires in 10 minutes. Do not share it with anyone.`;
+
+  try {
+    await provider.send(to, body);
+  } catch (error: any) {
+    console.error(
+      `Failed to send OTP SMS via ${provider.name}:`,
+      error.message,
+    );
+    throw new ErrorHandler(
+      "We couldn't send the SMS right now. Please try again later",
+      503,
+    );
+  }
+};
@@ -0,0 +1,119 @@
+import ErrorHandler from "../middlewares/Errorhandler.js";
+import type { SplitMode } from "../models/splitGroupModel.js";
+
+export interface SplitInput {
+  userId: string;
+  value?: number; // exact amount, percentage or share count (unused for equal)
+}
+
+export interface SplitShare {
+  userId: string;
+  value?: number;
+  amount: number;
+}
+
+// All arithmetic happens in whole cents so parts always add up exactly
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+/**
+ * Split `totalCents` in proportion to `weights`. Leftover cents from rounding
+ * down go to the largest remainders (earlier participants win ties).
+ */
+function allocateCents(totalCents: number, weights: number[]): number[] {
+  const weightSum = sum(weights);
+  const exact = weights.map((w) => (totalCents * w) / weightSum);
+  const cents = exact.map(Math.floor);
+
+  const byRemainder = exact
+    .map((_, i) => i)
+    .sort((a, b) => exact[b] - cents[b] - (exact[a] - cents[a]) || a - b);
+  let leftover = totalCents - sum(cents);
+  for (let i = 0; leftover > 0; i++, leftover--) {
+    cents[byRemainder[i % byRemainder.length]]++;
+  }
+
+  return cents;
+}
+
+/**
+ * Each participant's part of `total` under the given mode:
+ * - equal: same part for everyone
+ * - exact: `value` is the amount, and the amounts must add up to the total
+ * - percentage: `value` is a percentage, and they must add up to 100
+ * - shares: `value` is a share count (2 shares pay twice as much as 1)
+ *
+ * Parts always add up to the total to the cent; throws a 400 when the input
+ * can't.
+ */
+export function computeSplitShares(
+  total: number,
+  mode: SplitMode,
+  participants: SplitInput[],
+): SplitShare[] {
+  if (participants.length === 0) {
+    throw new ErrorHandler("At least one participant required", 400);
+  }
+
+  const userIds = participants.map((p) => p.userId);
+  if (new Set(userIds).size !== userIds.length) {
+    throw new ErrorHandler("Each participant can only appear once", 400);
+  }
+
+  const totalCents = toCents(total);
+  const values = participants.map((p) => p.value ?? NaN);
+  if (
+    mode !== "equal" &&
+    values.some((value) => !Number.isFinite(value) || value < 0)
+  ) {
+    throw new ErrorHandler(
+      `Every participant needs a non-negative value for a ${mode} split`,
+      400,
+    );
+  }
+
+  let cents: number[];
+  switch (mode) {
+    case "equal":
+      cents = allocateCents(totalCents, participants.map(() => 1));
+      break;
+
+    case "exact":
+      cents = values.map(toCents);
+      if (sum(cents) !== totalCents) {
+        throw new ErrorHandler(
+          `Amounts add up to ${fromCents(sum(cents))}, not the total of ${total}`,
+          400,
+        );
+      }
+      break;
+
+    case "percentage": {
+      // Basis points, so 33.33% + 33.33% + 33.34% is exactly 100%
+      const basisPoints = values.map(toCents);
+      if (sum(basisPoints) !== 100 * 100) {
+        throw new ErrorHandler(
+          `Percentages add up to ${fromCents(sum(basisPoints))}%, not 100%`,
+          400,
+        );
+      }
+      cents = allocateCents(totalCents, basisPoints);
+      break;
+    }
+
+    case "shares":
+      if (sum(values) <= 0) {
+        throw new ErrorHandler("Shares must add up to more than 0", 400);
+      }
+      cents = allocateCents(totalCents, values);
+      break;
+  }
+
+  return participants.map((p, i) => ({
+    userId: p.userId,
+    ...(mode !== "equal" && { value: p.value }),
+    amount: fromCents(cents[i]),
+  }));
+}
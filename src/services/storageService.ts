@@ -0,0 +1,291 @@
+import { randomBytes } from "crypto";
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import jwt from "jsonwebtoken";
+import {
+  API_URL,
+  JWT_SECRET,
+  STORAGE_DRIVER,
+  UPLOAD_DIR,
+} from "../config/envVariables.js";
+import { CLOUDINARY_FOLDER } from "../config/cloudinary.js";
+import {
+  deleteFromCloudinary,
+  getCloudinarySignedUrl,
+  uploadToCloudinary,
+} from "./cloudinaryService.js";
+
+//======= Types =======//
+
+// Public files get a permanent URL (avatars, pool images); private ones are
+// only reachable through short-lived signed URLs (receipts)
+export type StorageVisibility = "public" | "private";
+
+export interface UploadOptions {
+  folder: string; // e.g. "avatars", "pool-images", "attachments"
+  contentType: string;
+  visibility?: StorageVisibility; // default "public"
+  // Cover-crop images to this size where the driver supports it
+  // (faces = keep faces in frame, for avatars)
+  resize?: { width: number; height: number; faces?: boolean };
+}
+
+// What callers persist to find the file again
+export interface StoredFile {
+  key: string;
+  url?: string; // public files only
+  contentType: string;
+  size: number;
+  visibility: StorageVisibility;
+}
+
+export type StoredFileRef = Pick<
+  StoredFile,
+  "key" | "contentType" | "visibility"
+>;
+
+/**
+ * Anything that can store uploaded files.
+ * Plug a different one in with setStorageDriver().
+ */
+export interface StorageDriver {
+  name: string;
+  upload(buffer: Buffer, options: UploadOptions): Promise<StoredFile>;
+  delete(file: StoredFileRef): Promise<void>;
+  getSignedUrl(file: StoredFileRef, ttlMs: number): string;
+}
+
+export const DEFAULT_SIGNED_URL_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/jpg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+const extensionFor = (contentType: string) =>
+  EXTENSIONS[contentType] || "bin";
+
+//======= Cloudinary =======//
+
+class CloudinaryStorageDriver implements StorageDriver {
+  name = "cloudinary";
+
+  private assetOptions(contentType: string, visibility: StorageVisibility) {
+    return {
+      resourceType: contentType.startsWith("image/")
+        ? ("image" as const)
+        : ("raw" as const),
+      deliveryType:
+        visibility === "private"
+          ? ("authenticated" as const)
+          : ("upload" as const),
+    };
+  }
+
+  async upload(buffer: Buffer, options: UploadOptions): Promise<StoredFile> {
+    const visibility = options.visibility || "public";
+    // Avatars keep their historical folder
+    const folder =
+      options.folder === "avatars"
+        ? CLOUDINARY_FOLDER
+        : `finzz/${options.folder}`;
+    const transformation = options.resize && [
+      {
+        width: options.resize.width,
+        height: options.resize.height,
+        crop: "fill",
+        gravity: options.resize.faces ? "face" : "auto",
+      },
+      { quality: "auto", fetch_format: "auto" },
+    ];
+
+    const result = await uploadToCloudinary(buffer, folder, {
+      ...this.assetOptions(options.contentType, visibility),
+      ...(transformation && { transformation }),
+    });
+
+    return {
+      key: result.public_id,
+      ...(visibility === "public" && { url: result.secure_url }),
+      contentType: options.contentType,
+      size: result.bytes ?? buffer.length,
+      visibility,
+    };
+  }
+
+  async delete(file: StoredFileRef): Promise<void> {
+    await deleteFromCloudinary(
+      file.key,
+      this.assetOptions(file.contentType, file.visibility),
+    );
+  }
+
+  getSignedUrl(file: StoredFileRef, ttlMs: number): string {
+    const options = this.assetOptions(file.contentType, file.visibility);
+    return getCloudinarySignedUrl(
+      file.key,
+      options.resourceType === "raw" ? "" : extensionFor(file.contentType),
+      Math.floor((Date.now() + ttlMs) / 1000),
+      options,
+    );
+  }
+}
+
+//======= Local Disk =======//
+
+// Signed local URLs only grant access to one file
+const FILE_TOKEN_AUDIENCE = "finzz:file";
+const LOCAL_FILES_PATH = "/api/v1/files";
+
+/**
+ * Stores files under UPLOAD_DIR and serves them from /api/v1/files
+ * (development, tests, self-hosting without Cloudinary)
+ */
+class LocalStorageDriver implements StorageDriver {
+  name = "local";
+
+  constructor(private dir: string) {}
+
+  resolvePath(key: string): string | null {
+    const root = path.resolve(this.dir);
+    const filePath = path.resolve(root, key);
+    // Keys come from URLs: never let one escape the upload directory
+    return filePath.startsWith(root + path.sep) ? filePath : null;
+  }
+
+  async upload(buffer: Buffer, options: UploadOptions): Promise<StoredFile> {
+    const visibility = options.visibility || "public";
+    const name = `${randomBytes(16).toString("hex")}.${extensionFor(options.contentType)}`;
+    // Private files live under their own prefix so the file route can tell
+    const key = [
+      ...(visibility === "private" ? ["private"] : []),
+      options.folder,
+      name,
+    ].join("/");
+
+    const filePath = this.resolvePath(key);
+    if (!filePath) {
+      throw new Error(`Invalid storage folder: ${options.folder}`);
+    }
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, buffer);
+
+    return {
+      key,
+      ...(visibility === "public" && {
+        url: `${API_URL}${LOCAL_FILES_PATH}/${key}`,
+      }),
+      contentType: options.contentType,
+      size: buffer.length,
+      visibility,
+    };
+  }
+
+  async delete(file: StoredFileRef): Promise<void> {
+    const filePath = this.resolvePath(file.key);
+    if (!filePath) return;
+    await unlink(filePath).catch((error) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  }
+
+  getSignedUrl(file: StoredFileRef, ttlMs: number): string {
+    const token = jwt.sign({ key: file.key }, JWT_SECRET, {
+      audience: FILE_TOKEN_AUDIENCE,
+      expiresIn: Math.floor(ttlMs / 1000),
+    });
+    return `${API_URL}${LOCAL_FILES_PATH}/${file.key}?token=${token}`;
+  }
+}
+
+/**
+ * Absolute path of a locally stored file the request may read, or null.
+ * Private files need a signed token for exactly that key.
+ */
+export function resolveLocalFile(key: string, token?: string): string | null {
+  if (!(driver instanceof LocalStorageDriver)) return null;
+
+  // Plain "folder/name" keys only, so "avatars/../private/x" can't skip the check
+  const segments = key.split("/");
+  const unsafe = (segment: string) =>
+    segment === "" ||
+    segment === "." ||
+    segment === ".." ||
+    segment.includes("\\");
+  if (segments.some(unsafe)) return null;
+
+  if (segments[0] === "private") {
+    try {
+      const decoded = jwt.verify(token || "", JWT_SECRET, {
+        audience: FILE_TOKEN_AUDIENCE,
+      }) as { key: string };
+      if (decoded.key !== key) return null;
+    } catch {
+      return null;
+    }
+  }
+
+  return driver.resolvePath(key);
+}
+
+//======= Driver Selection =======//
+
+const createStorageDriver = (): StorageDriver => {
+  switch (STORAGE_DRIVER) {
+    case "cloudinary":
+      return new CloudinaryStorageDriver();
+    case "local":
+      return new LocalStorageDriver(UPLOAD_DIR);
+    default:
+      throw new Error(
+        `Unknown STORAGE_DRIVER "${STORAGE_DRIVER}" (expected "cloudinary" or "local")`,
+      );
+  }
+};
+
+let driver: StorageDriver = createStorageDriver();
+
+/**
+ * Replace the active storage driver (another provider, test double, ...)
+ */
+export const setStorageDriver = (storageDriver: StorageDriver) => {
+  driver = storageDriver;
+};
+
+//======= Public API =======//
+
+export const uploadFile = (buffer: Buffer, options: UploadOptions) =>
+  driver.upload(buffer, options);
+
+export const deleteFile = (file: StoredFileRef) => driver.delete(file);
+
+export const getSignedFileUrl = (
+  file: StoredFileRef,
+  ttlMs: number = DEFAULT_SIGNED_URL_TTL_MS,
+) => driver.getSignedUrl(file, ttlMs);
+
+/**
+ * Delete a public image by the storage key saved when it was uploaded
+ * (avatar, pool image) — never by a URL, which a client may have pointed at
+ * someone else's file. Never throws — a leftover file shouldn't block the
+ * update that replaced it.
+ */
+export async function deleteImageByKey(
+  key: string | undefined | null,
+): Promise<void> {
+  if (!key) return;
+
+  try {
+    // Only the resource type (image) matters for deletion
+    await driver.delete({
+      key,
+      contentType: "image/jpeg",
+      visibility: "public",
+    });
+  } catch (error) {
+    console.error(`Failed to delete stored file ${key}:`, error);
+  }
+}
@@ -1,17 +1,12 @@
 import mongoose from "mongoose";
 import { MonthlySummary } from "../models/monthlySummaryModel.js";
-
-/**
- * Extract year and month from a Date object
- */
-function getYearMonth(date: Date): { year: number; month: number } {
-  const d = new Date(date);
-  return { year: d.getFullYear(), month: d.getMonth() + 1 };
-}
+import { Chat } from "../models/chatModel.js";
+import { getYearMonth } from "../utils/period.js";
 
 /**
  * Called when a transaction is ADDED.
  * Uses atomic $inc + upsert so there's no read-before-write.
+ * `timezone` is the chat's — it decides which month the txn belongs to.
  */
 export async function updateSummaryOnAdd(
   chatId: mongoose.Types.ObjectId | string,
@@ -19,8 +14,9 @@ export async function updateSummaryOnAdd(
   fromUserId: string,
   toUserId: string,
   amount: number,
+  timezone?: string,
 ) {
-  const { year, month } = getYearMonth(txDate);
+  const { year, month } = getYearMonth(txDate, timezone);
 
   await MonthlySummary.updateOne(
     { chatId, year, month },
@@ -33,6 +29,11 @@ export async function updateSummaryOnAdd(
     },
     { upsert: true },
   );
+  await updateChatBalances(
+    chatId,
+    [{ from: fromUserId, to: toUserId, amount }],
+    1,
+  );
 }
 
 /**
@@ -45,8 +46,9 @@ export async function updateSummaryOnDelete(
   fromUserId: string,
   toUserId: string,
   amount: number,
+  timezone?: string,
 ) {
-  const { year, month } = getYearMonth(txDate);
+  const { year, month } = getYearMonth(txDate, timezone);
 
   await MonthlySummary.updateOne(
     { chatId, year, month },
@@ -58,6 +60,11 @@ export async function updateSummaryOnDelete(
       },
     },
   );
+  await updateChatBalances(
+    chatId,
+    [{ from: fromUserId, to: toUserId, amount }],
+    -1,
+  );
 }
 
 /**
@@ -78,9 +85,10 @@ export async function updateSummaryOnEdit(
     to: string;
     amount: number;
   },
+  timezone?: string,
 ) {
-  const oldYM = getYearMonth(oldTx.date);
-  const newYM = getYearMonth(newTx.date);
+  const oldYM = getYearMonth(oldTx.date, timezone);
+  const newYM = getYearMonth(newTx.date, timezone);
 
   const sameMonth = oldYM.year === newYM.year && oldYM.month === newYM.month;
   const sameDirection = oldTx.from === newTx.from && oldTx.to === newTx.to;
@@ -98,6 +106,11 @@ export async function updateSummaryOnEdit(
           },
         },
       );
+      await updateChatBalances(
+        chatId,
+        [{ from: oldTx.from, to: oldTx.to, amount: diff }],
+        1,
+      );
     }
   } else {
     // Month or direction changed — reverse old, apply new
@@ -107,6 +120,7 @@ export async function updateSummaryOnEdit(
       oldTx.from,
       oldTx.to,
       oldTx.amount,
+      timezone,
     );
     await updateSummaryOnAdd(
       chatId,
@@ -114,32 +128,111 @@ export async function updateSummaryOnEdit(
       newTx.from,
       newTx.to,
       newTx.amount,
+      timezone,
     );
   }
 }
 
 /**
- * Get the carry-forward (opening) balance for a given month.
- * This sums up the net balance of all months BEFORE the given month.
- * Returns per-user net: positive = user has received more (is owed less / owes more)
+ * One movement of money inside a chat
  */
-export async function getCarryForward(
+export interface TxLeg {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+/**
+ * What a transaction moves: a 1:1 payment is a single leg; a group payment is
+ * one leg per participant the payer covered (their own share moves nothing)
+ */
+export function getTxLegs(tx: {
+  from: mongoose.Types.ObjectId | string;
+  to?: mongoose.Types.ObjectId | string | null;
+  amount: number;
+  participants?: { user: mongoose.Types.ObjectId | string; amount: number }[];
+}): TxLeg[] {
+  const from = tx.from.toString();
+
+  if (tx.participants?.length) {
+    return tx.participants
+      .filter((p) => p.user.toString() !== from && p.amount > 0)
+      .map((p) => ({ from, to: p.user.toString(), amount: p.amount }));
+  }
+
+  return tx.to ? [{ from, to: tx.to.toString(), amount: tx.amount }] : [];
+}
+
+/**
+ * Called when a group payment is ADDED (sign 1) or DELETED (sign -1).
+ * Every leg goes into one atomic $inc; the txn still counts once.
+ */
+export async function updateSummaryForLegs(
   chatId: mongoose.Types.ObjectId | string,
-  year: number,
-  month: number,
-): Promise<Record<string, number>> {
-  // Get all summaries before the given month
-  const priorSummaries = await MonthlySummary.find({
-    chatId,
-    $or: [{ year: { $lt: year } }, { year: year, month: { $lt: month } }],
-  })
-    .sort({ year: 1, month: 1 })
-    .lean();
+  txDate: Date,
+  legs: TxLeg[],
+  sign: 1 | -1,
+  timezone?: string,
+) {
+  const { year, month } = getYearMonth(txDate, timezone);
+
+  const inc: Record<string, number> = { txCount: sign };
+  for (const leg of legs) {
+    const sent = `members.${leg.from}.totalSent`;
+    const received = `members.${leg.to}.totalReceived`;
+    inc[sent] = (inc[sent] || 0) + sign * leg.amount;
+    inc[received] = (inc[received] || 0) + sign * leg.amount;
+  }
+
+  await MonthlySummary.updateOne(
+    { chatId, year, month },
+    { $inc: inc },
+    { upsert: sign === 1 },
+  );
+  await updateChatBalances(chatId, legs, sign);
+}
 
-  // Accumulate per-user net across all prior months
+//======= Running Balances =======//
+
+/**
+ * Keep Chat.balances (all-time OwedBalances, as getChatBalances) in step
+ * with the summaries, so the chat list can show who owes whom without
+ * reading every month
+ */
+async function updateChatBalances(
+  chatId: mongoose.Types.ObjectId | string,
+  legs: TxLeg[],
+  sign: 1 | -1,
+) {
+  const inc: Record<string, number> = {};
+  for (const leg of legs) {
+    const sent = `balances.${leg.from}`;
+    const received = `balances.${leg.to}`;
+    // Paying makes the others owe you; receiving makes you owe them
+    inc[sent] = (inc[sent] || 0) + sign * leg.amount;
+    inc[received] = (inc[received] || 0) - sign * leg.amount;
+  }
+  if (Object.keys(inc).length === 0) return;
+
+  await Chat.updateOne({ _id: chatId }, { $inc: inc });
+}
+
+/**
+ * Rebuild Chat.balances from the summaries (after a backfill, or to repair
+ * drift)
+ */
+export async function syncChatBalances(
+  chatId: mongoose.Types.ObjectId | string,
+) {
+  const balances = await getChatBalances(chatId);
+  await Chat.updateOne({ _id: chatId }, { $set: { balances } });
+}
+
+// Per-user net (received - sent) summed over the given summaries
+function sumNetBalances(summaries: any[]) {
   const netBalances: Record<string, number> = {};
 
-  for (const summary of priorSummaries) {
+  for (const summary of summaries) {
     const members = summary.members as any;
     if (members) {
       // Handle both Map and plain object
@@ -159,3 +252,83 @@ export async function getCarryForward(
 
   return netBalances;
 }
+
+/**
+ * Get the carry-forward (opening) balance for a given month.
+ * This sums up the net balance of all months BEFORE the given month.
+ * Returns per-user net: positive = user has received more (is owed less / owes more)
+ */
+export async function getCarryForward(
+  chatId: mongoose.Types.ObjectId | string,
+  year: number,
+  month: number,
+): Promise<Record<string, number>> {
+  // Get all summaries before the given month
+  const priorSummaries = await MonthlySummary.find({
+    chatId,
+    $or: [{ year: { $lt: year } }, { year: year, month: { $lt: month } }],
+  })
+    .sort({ year: 1, month: 1 })
+    .lean();
+
+  return sumNetBalances(priorSummaries);
+}
+
+//======= All-Time Balances =======//
+
+// positive = the others owe this user, negative = this user owes
+export type OwedBalances = Record<string, number>;
+
+// Balances below this are rounding leftovers, not debts
+export const SETTLED_TOLERANCE = 0.01;
+
+/**
+ * All-time balance of every member in each chat, from MonthlySummary — the
+ * one place "who owes whom" is added up (settle-up, chat stats, digests and
+ * Chat.balances rebuilds all use it). Rounded to the cent.
+ */
+export async function getOwedBalancesByChat(
+  chatIds: mongoose.Types.ObjectId[],
+): Promise<Map<string, OwedBalances>> {
+  const rows = await MonthlySummary.aggregate<{
+    _id: { chatId: mongoose.Types.ObjectId; user: string };
+    owed: number;
+  }>([
+    { $match: { chatId: { $in: chatIds } } },
+    { $project: { chatId: 1, members: { $objectToArray: "$members" } } },
+    { $unwind: "$members" },
+    {
+      $group: {
+        _id: { chatId: "$chatId", user: "$members.k" },
+        owed: {
+          $sum: {
+            $subtract: [
+              { $ifNull: ["$members.v.totalSent", 0] },
+              { $ifNull: ["$members.v.totalReceived", 0] },
+            ],
+          },
+        },
+      },
+    },
+  ]);
+
+  const byChat = new Map<string, OwedBalances>();
+  for (const row of rows) {
+    const chatId = row._id.chatId.toString();
+    const balances = byChat.get(chatId) || {};
+    balances[row._id.user] = Math.round(row.owed * 100) / 100;
+    byChat.set(chatId, balances);
+  }
+  return byChat;
+}
+
+/**
+ * All-time balances in one chat. Everyone at 0 means the chat is settled.
+ */
+export async function getChatBalances(
+  chatId: mongoose.Types.ObjectId | string,
+): Promise<OwedBalances> {
+  const id = new mongoose.Types.ObjectId(chatId.toString());
+  const byChat = await getOwedBalancesByChat([id]);
+  return byChat.get(id.toString()) || {};
+}
@@ -0,0 +1,107 @@
+import jwt from "jsonwebtoken";
+import { hash, compare } from "bcrypt";
+import { randomBytes, randomUUID } from "crypto";
+import { JWT_SECRET } from "../config/envVariables.js";
+import { Response } from "express";
+import { IUser } from "../models/userModel.js";
+import { verifyTotp } from "../utils/totp.js";
+
+// Challenge tokens only prove "password (or SMS OTP) was correct" — never an access token
+export const TWO_FACTOR_AUDIENCE = "finzz:2fa";
+const CHALLENGE_EXPIRES_IN = "5m";
+
+const BACKUP_CODE_COUNT = 10;
+
+/**
+ * Short-lived token issued after the first login step for 2FA accounts.
+ * Its unique id (jti) is what wrong codes are counted against.
+ */
+export function issueTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ id: userId }, JWT_SECRET, {
+    expiresIn: CHALLENGE_EXPIRES_IN,
+    audience: TWO_FACTOR_AUDIENCE,
+    jwtid: randomUUID(),
+  });
+}
+
+/**
+ * First login step succeeded for a 2FA account: reply with a challenge
+ * instead of tokens. The app then calls /login/2fa with the code.
+ */
+export function sendTwoFactorChallenge(res: Response, user: IUser) {
+  res.status(200).json({
+    success: true,
+    twoFactorRequired: true,
+    challenge_token: issueTwoFactorChallenge(user._id.toString()),
+  });
+}
+
+/**
+ * Returns the user id and challenge id from a challenge token,
+ * or null if invalid/expired
+ */
+export function verifyTwoFactorChallenge(
+  token: string,
+): { userId: string; challengeId: string } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET, {
+      audience: TWO_FACTOR_AUDIENCE,
+    }) as { id: string; jti?: string };
+    // Tokens issued before challenge ids existed can't be attempt-limited
+    if (!decoded.jti) return null;
+    return { userId: decoded.id, challengeId: decoded.jti };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fresh set of one-time backup codes: plain (shown once) + bcrypt hashes (stored)
+ */
+export async function generateBackupCodes(): Promise<{
+  codes: string[];
+  hashes: string[];
+}> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex"); // 10 hex chars
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  const hashes = await Promise.all(codes.map((code) => hash(code, 10)));
+  return { codes, hashes };
+}
+
+/**
+ * Accept either a current TOTP code or an unused backup code.
+ * The user must be loaded with +twoFactorSecret +twoFactorBackupCodes +twoFactorLastStep.
+ * Used codes are recorded on the user and saved.
+ */
+export async function verifyTwoFactorCode(
+  user: IUser,
+  code: string,
+): Promise<boolean> {
+  const normalized = code.trim().toLowerCase();
+
+  // 1. Authenticator app code (each time step can be used once)
+  if (user.twoFactorSecret) {
+    const step = verifyTotp(user.twoFactorSecret, normalized);
+    if (step !== null) {
+      if (user.twoFactorLastStep !== undefined && step <= user.twoFactorLastStep) {
+        return false;
+      }
+      user.twoFactorLastStep = step;
+      await user.save({ validateBeforeSave: false });
+      return true;
+    }
+  }
+
+  // 2. Backup code (removed once used)
+  for (const [index, codeHash] of (user.twoFactorBackupCodes || []).entries()) {
+    if (await compare(normalized, codeHash)) {
+      user.twoFactorBackupCodes.splice(index, 1);
+      await user.save({ validateBeforeSave: false });
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,77 @@
+export const APP_NAME = "Finzz";
+
+// What every email template produces
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Names and remarks are user input — never put them in HTML raw
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #f5f5f5; margin: 0; padding: 0; }
+  .container { max-width: 520px; margin: 40px auto; background: #ffffff; border-radius: 16px; overflow: hidden; box-shadow: 0 4px 24px rgba(0,0,0,0.07); }
+  .header { background: linear-gradient(135deg, #6C63FF, #4A90E2); padding: 32px 24px; text-align: center; }
+  .header h1 { color: #ffffff; margin: 0; font-size: 24px; letter-spacing: -0.5px; }
+  .header p { color: #e8e6ff; margin: 8px 0 0; font-size: 13px; }
+  .body { padding: 32px 24px; color: #555; font-size: 14px; line-height: 1.6; }
+  .greeting { color: #333; font-size: 16px; margin: 0 0 8px; }
+  h2 { color: #333; font-size: 15px; margin: 24px 0 8px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; color: #555; }
+  td { padding: 8px 0; border-bottom: 1px solid #f0f0f0; }
+  td:last-child { text-align: right; }
+  .plus { color: #2e9e5b; }
+  .minus { color: #d9534f; }
+  .muted { color: #aaa; text-align: left !important; }
+  .code-box { background: #f0eeff; border-radius: 12px; padding: 20px; text-align: center; margin: 24px 0; }
+  .code { font-size: 40px; font-weight: 800; letter-spacing: 12px; color: #6C63FF; }
+  .note { color: #888; font-size: 13px; margin-top: 8px; }
+  .small { color: #999; font-size: 12px; margin-top: 24px; }
+  .footer { text-align: center; padding: 16px; color: #bbb; font-size: 12px; }
+`;
+
+/**
+ * The shared Finzz email shell: branded header, content, footer.
+ * `content` is trusted HTML — escape user input before building it.
+ */
+export function renderLayout(options: {
+  title: string;
+  subtitle?: string;
+  content: string;
+}): string {
+  const subtitle = options.subtitle ? `<p>${options.subtitle}</p>` : "";
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8" />
+      <title>${options.title}</title>
+      <style>${STYLES}</style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${APP_NAME}</h1>
+          ${subtitle}
+        </div>
+        <div class="body">${options.content}</div>
+        <div class="footer">&copy; ${new Date().getFullYear()} ${APP_NAME}. All rights reserved.</div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Plain-text alternative: paragraphs joined by blank lines, with the footer
+ */
+export const renderText = (paragraphs: string[]): string =>
+  [...paragraphs, `— ${APP_NAME}`].join("\n\n");
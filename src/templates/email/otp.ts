@@ -0,0 +1,35 @@
+import { APP_NAME, EmailContent, renderLayout, renderText } from "./layout.js";
+
+export function otpEmail(
+  otp: string,
+  purpose: "verification" | "reset",
+): EmailContent {
+  const isReset = purpose === "reset";
+  const subject = isReset
+    ? `${APP_NAME} — Password Reset OTP`
+    : `${APP_NAME} — Email Verification OTP`;
+  const instruction = isReset
+    ? "Use the OTP below to reset your password. It expires in 10 minutes."
+    : "Use the OTP below to verify your email address. It expires in 10 minutes.";
+
+  const content = `
+    <p class="greeting">Hi there 👋</p>
+    <p>${instruction.replace("10 minutes", "<strong>10 minutes</strong>")}</p>
+    <div class="code-box">
+      <div class="code">${otp}</div>
+      <div class="note">Do not share this OTP with anyone.</div>
+    </div>
+    <p class="small">If you didn't request this, you can safely ignore this email.</p>
+  `;
+
+  return {
+    subject,
+    html: renderLayout({ title: subject, content }),
+    text: renderText([
+      "Hi there,",
+      instruction,
+      `Your OTP: ${otp}`,
+      "Do not share this OTP with anyone. If you didn't request this, you can safely ignore this email.",
+    ]),
+  };
+}
@@ -0,0 +1,93 @@
+import {
+  APP_NAME,
+  EmailContent,
+  escapeHtml,
+  renderLayout,
+  renderText,
+} from "./layout.js";
+
+export interface WeeklySummary {
+  name: string;
+  periodLabel: string; // e.g. "12 Oct 2026 – 19 Oct 2026"
+  friends: { name: string; amount: string; owesYou: boolean }[];
+  pools: { name: string; txCount: number; credits: string; debits: string }[];
+  spend: { monthLabel: string; expenses: string; credits: string };
+}
+
+export function weeklySummaryEmail(summary: WeeklySummary): EmailContent {
+  const subject = `${APP_NAME} — Your weekly summary`;
+
+  const friendRows = summary.friends.length
+    ? summary.friends
+        .map(
+          (friend) => `
+            <tr>
+              <td>${escapeHtml(friend.name)}</td>
+              <td class="${friend.owesYou ? "plus" : "minus"}">
+                ${friend.owesYou ? "owes you" : "you owe"} ${friend.amount}
+              </td>
+            </tr>`,
+        )
+        .join("")
+    : `<tr><td colspan="2" class="muted">All settled up 🎉</td></tr>`;
+
+  const poolRows = summary.pools.length
+    ? summary.pools
+        .map(
+          (pool) => `
+            <tr>
+              <td>${escapeHtml(pool.name)}</td>
+              <td>${pool.txCount} txn(s) · <span class="plus">+${pool.credits}</span> · <span class="minus">−${pool.debits}</span></td>
+            </tr>`,
+        )
+        .join("")
+    : `<tr><td colspan="2" class="muted">No pool activity this week</td></tr>`;
+
+  const content = `
+    <p class="greeting">Hi ${escapeHtml(summary.name)} 👋</p>
+    <h2>Balances with friends</h2>
+    <table>${friendRows}</table>
+    <h2>Pool activity</h2>
+    <table>${poolRows}</table>
+    <h2>Personal spend — ${summary.spend.monthLabel}</h2>
+    <table>
+      <tr><td>Expenses</td><td class="minus">${summary.spend.expenses}</td></tr>
+      <tr><td>Credits</td><td class="plus">${summary.spend.credits}</td></tr>
+    </table>
+    <p class="small">You can turn off this email in the app's notification settings.</p>
+  `;
+
+  const friendLines = summary.friends.length
+    ? summary.friends.map(
+        (friend) =>
+          `- ${friend.name}: ${friend.owesYou ? "owes you" : "you owe"} ${friend.amount}`,
+      )
+    : ["All settled up"];
+  const poolLines = summary.pools.length
+    ? summary.pools.map(
+        (pool) =>
+          `- ${pool.name}: ${pool.txCount} txn(s), +${pool.credits} / -${pool.debits}`,
+      )
+    : ["No pool activity this week"];
+
+  return {
+    subject,
+    html: renderLayout({
+      title: subject,
+      subtitle: summary.periodLabel,
+      content,
+    }),
+    text: renderText([
+      `Hi ${summary.name},`,
+      `Your summary for ${summary.periodLabel}`,
+      ["Balances with friends", ...friendLines].join("\n"),
+      ["Pool activity", ...poolLines].join("\n"),
+      [
+        `Personal spend — ${summary.spend.monthLabel}`,
+        `Expenses: ${summary.spend.expenses}`,
+        `Credits: ${summary.spend.credits}`,
+      ].join("\n"),
+      "You can turn off this email in the app's notification settings.",
+    ]),
+  };
+}
@@ -14,11 +14,33 @@ declare module "expo-server-sdk" {
     channelId?: string;
   }
 
+  export type ExpoPushTicket =
+    | { status: "ok"; id: string }
+    | {
+        status: "error";
+        message: string;
+        details?: { error?: string; expoPushToken?: string };
+      };
+
+  export type ExpoPushReceipt =
+    | { status: "ok" }
+    | {
+        status: "error";
+        message: string;
+        details?: { error?: string; expoPushToken?: string };
+      };
+
   export class Expo {
     constructor(options?: any);
     static isExpoPushToken(token: any): boolean;
     chunkPushNotifications(messages: ExpoPushMessage[]): ExpoPushMessage[][];
-    sendPushNotificationsAsync(messages: ExpoPushMessage[]): Promise<any>;
+    sendPushNotificationsAsync(
+      messages: ExpoPushMessage[],
+    ): Promise<ExpoPushTicket[]>;
+    chunkPushNotificationReceiptIds(receiptIds: string[]): string[][];
+    getPushNotificationReceiptsAsync(
+      receiptIds: string[],
+    ): Promise<Record<string, ExpoPushReceipt>>;
   }
 
   export default Expo;
@@ -6,6 +6,7 @@ declare global {
     interface Request {
       user: {
         id: string;
+        sessionId?: string;
       };
     }
   }
@@ -0,0 +1,43 @@
+import { IUserPreferences } from "../models/userModel.js";
+
+/**
+ * Amount / date formatting that honours a user's preferences.
+ * Pass the result of resolvePreferences()/getUserPreferences().
+ */
+
+type FormatPreferences = Pick<
+  IUserPreferences,
+  "currency" | "locale" | "numberFormat" | "timezone"
+>;
+
+// Digit grouping: "indian" = 1,00,000 — "international" = 100,000
+const numberLocale = (prefs: FormatPreferences): string => {
+  if (prefs.numberFormat === "indian") return "en-IN";
+  if (prefs.numberFormat === "international") return "en-US";
+  return prefs.locale;
+};
+
+export function formatAmount(
+  amount: number,
+  prefs: FormatPreferences,
+): string {
+  try {
+    return new Intl.NumberFormat(numberLocale(prefs), {
+      style: "currency",
+      currency: prefs.currency,
+      minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  } catch {
+    return `${prefs.currency} ${amount}`;
+  }
+}
+
+export function formatDate(date: Date | string, prefs: FormatPreferences) {
+  return new Intl.DateTimeFormat(prefs.locale, {
+    timeZone: prefs.timezone,
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  }).format(new Date(date));
+}
@@ -0,0 +1,142 @@
+/**
+ * Timezone-aware calendar periods. Month locks, MonthlySummary keys, expense
+ * ledgers and stats must all agree on which month an instant belongs to, so
+ * everything resolves months in an explicit IANA timezone instead of the
+ * server's local time.
+ */
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+export interface YearMonth {
+  year: number;
+  month: number; // 1-12
+}
+
+export const resolveTimezone = (timezone?: string | null): string =>
+  timezone || DEFAULT_TIMEZONE;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string) => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Wall-clock parts of an instant in the given timezone
+ */
+export function getZonedParts(date: Date, timezone?: string | null) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(resolveTimezone(timezone)).formatToParts(
+    date,
+  )) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// Offset (ms) of the timezone from UTC at the given instant
+const getOffsetMs = (date: Date, timezone: string): number => {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The instant when the given wall-clock time occurs in the timezone
+ * (month may overflow, e.g. month 13 = January of next year)
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  timezone?: string | null,
+  hour = 0,
+  minute = 0,
+): Date {
+  const tz = resolveTimezone(timezone);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getOffsetMs(new Date(guess), tz);
+  const result = guess - offset;
+  // Re-check in case a DST change happened between guess and result
+  const corrected = getOffsetMs(new Date(result), tz);
+  return new Date(corrected === offset ? result : guess - corrected);
+}
+
+/**
+ * Calendar month an instant falls in, in the given timezone
+ */
+export function getYearMonth(date: Date, timezone?: string | null): YearMonth {
+  const { year, month } = getZonedParts(new Date(date), timezone);
+  return { year, month };
+}
+
+/**
+ * [start, end) of a calendar month in the given timezone
+ */
+export function getMonthRange(
+  year: number,
+  month: number,
+  timezone?: string | null,
+): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(year, month, 1, timezone),
+    end: zonedTimeToUtc(year, month + 1, 1, timezone),
+  };
+}
+
+/**
+ * Start of the current month in the timezone — anything before it is a closed month
+ */
+export function getCurrentMonthStart(
+  timezone?: string | null,
+  now: Date = new Date(),
+): Date {
+  const { year, month } = getYearMonth(now, timezone);
+  return getMonthRange(year, month, timezone).start;
+}
+
+/**
+ * [start, end) of the calendar day containing the instant
+ */
+export function getDayRange(
+  date: Date,
+  timezone?: string | null,
+): { start: Date; end: Date } {
+  const { year, month, day } = getZonedParts(new Date(date), timezone);
+  return {
+    start: zonedTimeToUtc(year, month, day, timezone),
+    end: zonedTimeToUtc(year, month, day + 1, timezone),
+  };
+}
+
+/**
+ * Shift a year/month by a number of months (negative = back)
+ */
+export function addMonths(year: number, month: number, delta: number): YearMonth {
+  const index = year * 12 + (month - 1) + delta;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+export const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
@@ -1,43 +1,122 @@
-import { Response } from "express";
+import { Request, Response } from "express";
 import jwt, { Secret } from "jsonwebtoken";
-import { JWT_SECRET } from "../config/envVariables.js";
+import mongoose from "mongoose";
+import { randomUUID } from "crypto";
+import { JWT_SECRET, JWT_REFRESH_SECRET } from "../config/envVariables.js";
 import { IUser } from "../models/userModel.js";
+import { Session, ISession } from "../models/sessionModel.js";
+import ErrorHandler from "../middlewares/Errorhandler.js";
+import {
+  ACCESS_TOKEN_AUDIENCE,
+  REFRESH_TOKEN_AUDIENCE,
+  SESSION_TTL_MS,
+  getDeviceInfo,
+  hashToken,
+} from "../services/sessionService.js";
+import { cancelScheduledDeletion } from "../services/accountDeletionService.js";
 
 /**
  * Dual Token System: Access Token (2 days) + Refresh Token (30 days)
  * For mobile app: tokens returned in response (stored in AsyncStorage/SecureStore)
  * - Access token: Used for API authentication, short-lived
- * - Refresh token: Used to get new access token, long-lived, stored in DB
+ * - Refresh token: Used to get new access token, long-lived, hash stored per device Session
+ *
+ * Access and refresh tokens use different secrets and audiences. Both carry the
+ * session id (`sid`). Pass `session` to rotate tokens for an existing device
+ * (refresh); otherwise a new Session is created (login/register).
+ * A fresh login also cancels a pending account deletion.
  */
-const sendToken = async (res: Response, user: IUser, statusCode: number) => {
+const sendToken = async (
+  req: Request,
+  res: Response,
+  user: IUser,
+  statusCode: number,
+  session?: ISession,
+) => {
   if (!JWT_SECRET) throw new Error("JWT_SECRET is not defined");
+  if (!JWT_REFRESH_SECRET) throw new Error("JWT_REFRESH_SECRET is not defined");
+
+  const sessionId = session?._id ?? new mongoose.Types.ObjectId();
 
   // Generate Access Token (2 days)
-  const accessToken = jwt.sign({ id: user._id }, JWT_SECRET as Secret, {
-    expiresIn: "2d", // 2 days
-  });
+  const accessToken = jwt.sign(
+    { id: user._id, sid: sessionId },
+    JWT_SECRET as Secret,
+    {
+      expiresIn: "2d", // 2 days
+      audience: ACCESS_TOKEN_AUDIENCE,
+    },
+  );
 
-  // Generate Refresh Token (30 days)
-  const refreshToken = jwt.sign({ id: user._id }, JWT_SECRET as Secret, {
-    expiresIn: "30d", // 30 days (1 month)
-  });
+  // Generate Refresh Token (30 days) — jwtid makes every rotation unique
+  const refreshToken = jwt.sign(
+    { id: user._id, sid: sessionId },
+    JWT_REFRESH_SECRET as Secret,
+    {
+      expiresIn: "30d", // 30 days (1 month)
+      audience: REFRESH_TOKEN_AUDIENCE,
+      jwtid: randomUUID(),
+    },
+  );
+
+  const deletionCancelled = !session && (await cancelScheduledDeletion(user));
+
+  const device = getDeviceInfo(req);
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  if (session) {
+    // Refresh: swap the stored hash only if it is still the one we validated,
+    // so two concurrent refreshes with the same token cannot both succeed
+    const result = await Session.updateOne(
+      {
+        _id: session._id,
+        refreshTokenHash: session.refreshTokenHash,
+        revokedAt: { $exists: false },
+      },
+      {
+        $set: {
+          refreshTokenHash: hashToken(refreshToken),
+          lastUsedAt: new Date(),
+          expiresAt,
+          ...(device.ip && { ip: device.ip }),
+        },
+        $inc: { rotationCount: 1 },
+      },
+    );
 
-  // Save refresh token to user document
-  user.refreshToken = refreshToken;
-  await user.save({ validateBeforeSave: false });
+    if (result.matchedCount === 0) {
+      throw new ErrorHandler("Refresh token has already been used", 401);
+    }
+  } else {
+    await Session.create({
+      _id: sessionId,
+      userId: user._id,
+      deviceName: device.deviceName,
+      platform: device.platform,
+      ip: device.ip,
+      userAgent: device.userAgent,
+      refreshTokenHash: hashToken(refreshToken),
+      lastUsedAt: new Date(),
+      expiresAt,
+    });
+  }
 
   // Send response with both tokens (mobile app will store in AsyncStorage/SecureStore)
   res.status(statusCode).json({
     success: true,
     access_token: accessToken,
     refresh_token: refreshToken,
+    session_id: sessionId,
+    ...(deletionCancelled && { deletionCancelled: true }),
     user: {
       _id: user._id,
       name: user.name,
       phone: user.phone,
+      phoneVerified: user.phoneVerified,
       avatar: user.avatar,
       email: user.email,
       emailVerified: user.emailVerified,
+      preferences: user.preferences,
       // Do NOT send password or refreshToken
     },
   });
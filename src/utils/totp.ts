@@ -0,0 +1,113 @@
+import { createHmac, randomBytes } from "crypto";
+
+/**
+ * Minimal RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30s step) — the defaults every
+ * authenticator app (Google Authenticator, Authy, 1Password...) understands.
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const clean = input.replace(/=+$/, "").replace(/\s/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// Code for a given time step (HOTP with counter = step)
+const generateCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+};
+
+export const currentStep = (now: number = Date.now()): number =>
+  Math.floor(now / 1000 / STEP_SECONDS);
+
+/**
+ * New random 160-bit secret, base32 encoded
+ */
+export const generateTotpSecret = (): string => base32Encode(randomBytes(20));
+
+/**
+ * Check a code, allowing one step of clock drift either way.
+ * Returns the matching time step (for replay protection) or null.
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  window: number = 1,
+): number | null => {
+  if (!/^\d{6}$/.test(code)) return null;
+
+  const step = currentStep();
+  for (let offset = -window; offset <= window; offset++) {
+    if (generateCode(secret, step + offset) === code) {
+      return step + offset;
+    }
+  }
+  return null;
+};
+
+/**
+ * otpauth:// URI that authenticator apps read from a QR code
+ */
+export const buildOtpAuthUri = (
+  secret: string,
+  accountName: string,
+  issuer: string,
+): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  addMonths,
+  daysInMonth,
+  getCurrentMonthStart,
+  getDayRange,
+  getMonthRange,
+  getYearMonth,
+  zonedTimeToUtc,
+} from "../src/utils/period.js";
+
+describe("period", () => {
+  it("puts an instant in the month of the given timezone", () => {
+    // 20:00 UTC on Jan 31 is already Feb 1 in India, still Jan 31 in New York
+    const instant = new Date("2026-01-31T20:00:00Z");
+    expect(getYearMonth(instant, "Asia/Kolkata")).toEqual({
+      year: 2026,
+      month: 2,
+    });
+    expect(getYearMonth(instant, "America/New_York")).toEqual({
+      year: 2026,
+      month: 1,
+    });
+    expect(getYearMonth(instant, "UTC")).toEqual({ year: 2026, month: 1 });
+  });
+
+  it("defaults to Asia/Kolkata", () => {
+    const instant = new Date("2026-01-31T20:00:00Z");
+    expect(getYearMonth(instant)).toEqual({ year: 2026, month: 2 });
+    expect(getYearMonth(instant, null)).toEqual({ year: 2026, month: 2 });
+  });
+
+  it("converts wall-clock time to UTC", () => {
+    expect(zonedTimeToUtc(2026, 3, 1, "Asia/Kolkata").toISOString()).toBe(
+      "2026-02-28T18:30:00.000Z",
+    );
+    expect(zonedTimeToUtc(2026, 13, 1, "UTC").toISOString()).toBe(
+      "2027-01-01T00:00:00.000Z",
+    );
+  });
+
+  it("handles daylight saving changes", () => {
+    // New York moves to EDT (UTC-4) on 2026-03-08
+    expect(zonedTimeToUtc(2026, 3, 1, "America/New_York").toISOString()).toBe(
+      "2026-03-01T05:00:00.000Z",
+    );
+    expect(zonedTimeToUtc(2026, 4, 1, "America/New_York").toISOString()).toBe(
+      "2026-04-01T04:00:00.000Z",
+    );
+
+    const { start, end } = getDayRange(
+      new Date("2026-03-08T12:00:00Z"),
+      "America/New_York",
+    );
+    expect(end.getTime() - start.getTime()).toBe(23 * 60 * 60 * 1000);
+  });
+
+  it("returns [start, end) of a month", () => {
+    const { start, end } = getMonthRange(2026, 12, "UTC");
+    expect(start.toISOString()).toBe("2026-12-01T00:00:00.000Z");
+    expect(end.toISOString()).toBe("2027-01-01T00:00:00.000Z");
+  });
+
+  it("finds the start of the current month", () => {
+    const now = new Date("2026-05-31T19:00:00Z"); // June 1 in India
+    expect(getCurrentMonthStart("Asia/Kolkata", now).toISOString()).toBe(
+      "2026-05-31T18:30:00.000Z",
+    );
+    expect(getCurrentMonthStart("UTC", now).toISOString()).toBe(
+      "2026-05-01T00:00:00.000Z",
+    );
+  });
+
+  it("shifts months across years", () => {
+    expect(addMonths(2026, 1, -1)).toEqual({ year: 2025, month: 12 });
+    expect(addMonths(2026, 11, 3)).toEqual({ year: 2027, month: 2 });
+    expect(addMonths(2026, 6, -18)).toEqual({ year: 2024, month: 12 });
+  });
+
+  it("counts days in a month", () => {
+    expect(daysInMonth(2024, 2)).toBe(29);
+    expect(daysInMonth(2026, 2)).toBe(28);
+    expect(daysInMonth(2026, 12)).toBe(31);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Request, Response } from "express";
+import {
+  byBodyField,
+  byIp,
+  byUser,
+  rateLimit,
+} from "../src/middlewares/rateLimiter.js";
+import { MemoryRateLimitStore } from "../src/services/rateLimitStore.js";
+
+const fakeRequest = (fields: Record<string, unknown> = {}) =>
+  ({ ip: "10.0.0.1", body: {}, ...fields }) as unknown as Request;
+
+const fakeResponse = () => {
+  const headers: Record<string, unknown> = {};
+  const res = {
+    headers,
+    setHeader: (name: string, value: unknown) => {
+      headers[name] = value;
+    },
+  };
+  return res as unknown as Response & { headers: Record<string, unknown> };
+};
+
+// Run the middleware once; resolves with what it passed to next()
+const hit = async (
+  limiter: ReturnType<typeof rateLimit>,
+  req: Request,
+  res = fakeResponse(),
+) => {
+  const next = vi.fn();
+  await limiter(req, res, next);
+  return { error: next.mock.calls[0]?.[0], res };
+};
+
+describe("rateLimit", () => {
+  it("lets `max` hits through, then answers 429", async () => {
+    const limiter = rateLimit({
+      name: "test",
+      windowMs: 60 * 1000,
+      max: 2,
+      key: byIp,
+      message: "Slow down",
+      store: new MemoryRateLimitStore(),
+    });
+
+    expect((await hit(limiter, fakeRequest())).error).toBeUndefined();
+    const second = await hit(limiter, fakeRequest());
+    expect(second.error).toBeUndefined();
+    expect(second.res.headers["RateLimit-Remaining"]).toBe(0);
+
+    const third = await hit(limiter, fakeRequest());
+    expect(third.error).toMatchObject({
+      message: "Slow down",
+      statusCode: 429,
+    });
+    expect(third.res.headers["Retry-After"]).toBe(60);
+  });
+
+  it("counts each key separately", async () => {
+    const limiter = rateLimit({
+      name: "test",
+      windowMs: 60 * 1000,
+      max: 1,
+      key: byIp,
+      store: new MemoryRateLimitStore(),
+    });
+
+    await hit(limiter, fakeRequest({ ip: "10.0.0.1" }));
+    expect(
+      (await hit(limiter, fakeRequest({ ip: "10.0.0.2" }))).error,
+    ).toBeUndefined();
+    expect(
+      (await hit(limiter, fakeRequest({ ip: "10.0.0.1" }))).error,
+    ).toMatchObject({ statusCode: 429 });
+  });
+
+  it("opens a new window once the old one ends", async () => {
+    vi.useFakeTimers();
+    const limiter = rateLimit({
+      name: "test",
+      windowMs: 1000,
+      max: 1,
+      key: byIp,
+      store: new MemoryRateLimitStore(),
+    });
+
+    await hit(limiter, fakeRequest());
+    expect((await hit(limiter, fakeRequest())).error).toBeDefined();
+    vi.advanceTimersByTime(1001);
+    expect((await hit(limiter, fakeRequest())).error).toBeUndefined();
+    vi.useRealTimers();
+  });
+
+  it("skips requests without a key", async () => {
+    const limiter = rateLimit({
+      name: "test",
+      windowMs: 60 * 1000,
+      max: 0,
+      key: byBodyField("phone"),
+      store: new MemoryRateLimitStore(),
+    });
+
+    expect((await hit(limiter, fakeRequest())).error).toBeUndefined();
+    expect(
+      (await hit(limiter, fakeRequest({ body: { phone: "+911234567890" } })))
+        .error,
+    ).toMatchObject({ statusCode: 429 });
+  });
+});
+
+describe("key extractors", () => {
+  it("normalises body fields", () => {
+    const byEmail = byBodyField("email");
+    expect(byEmail(fakeRequest({ body: { email: " A@B.com " } }))).toBe(
+      "a@b.com",
+    );
+    expect(byEmail(fakeRequest({ body: { email: 42 } }))).toBeUndefined();
+    expect(byEmail(fakeRequest({ body: { email: "" } }))).toBeUndefined();
+  });
+
+  it("keys on the authenticated user", () => {
+    expect(byUser(fakeRequest({ user: { id: "u1" } }))).toBe("u1");
+    expect(byUser(fakeRequest())).toBeUndefined();
+  });
+});
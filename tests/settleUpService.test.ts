@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  simplifyDebts,
+  SettlePayment,
+} from "../src/services/settleUpService.js";
+import type { OwedBalances } from "../src/services/summaryService.js";
+
+// Balances left after applying the payments (all zero when they settle)
+const applyPayments = (balances: OwedBalances, payments: SettlePayment[]) => {
+  const cents: Record<string, number> = {};
+  for (const [userId, balance] of Object.entries(balances)) {
+    cents[userId] = Math.round(balance * 100);
+  }
+  for (const { from, to, amount } of payments) {
+    cents[from] += Math.round(amount * 100);
+    cents[to] -= Math.round(amount * 100);
+  }
+  return cents;
+};
+
+const expectSettled = (balances: OwedBalances, payments: SettlePayment[]) => {
+  for (const cents of Object.values(applyPayments(balances, payments))) {
+    expect(cents).toBe(0);
+  }
+  for (const payment of payments) {
+    expect(payment.amount).toBeGreaterThan(0);
+  }
+};
+
+describe("simplifyDebts", () => {
+  it("returns nothing when everyone is settled", () => {
+    expect(simplifyDebts({})).toEqual([]);
+    expect(simplifyDebts({ a: 0, b: 0 })).toEqual([]);
+  });
+
+  it("has the debtor pay the creditor", () => {
+    expect(simplifyDebts({ a: 12.5, b: -12.5 })).toEqual([
+      { from: "b", to: "a", amount: 12.5 },
+    ]);
+  });
+
+  it("pairs exact matches", () => {
+    const balances = { a: 5, b: 4, c: 3, d: -5, e: -4, f: -3 };
+    const payments = simplifyDebts(balances);
+    expectSettled(balances, payments);
+    expect(payments).toHaveLength(3);
+  });
+
+  // Largest-pays-largest makes 5 payments here: f→b 3, e→c 3, f→a 2, f→d 1,
+  // e→d 1. {a, d, e} and {b, c, f} each add up to zero, so 2 + 2 do it
+  it("beats greedy when the group splits into zero-sum subgroups", () => {
+    const balances = { a: 2, b: 3, c: 3, d: 2, e: -4, f: -6 };
+    const payments = simplifyDebts(balances);
+    expectSettled(balances, payments);
+    expect(payments).toHaveLength(4);
+  });
+
+  it("needs n - (zero-sum subgroups) payments", () => {
+    // {a, d}, {b, e} and {c, f, g} sum to zero: 7 people, 3 groups
+    const balances = { a: 7, b: 3, c: 2, d: -7, e: -3, f: -1, g: -1 };
+    const payments = simplifyDebts(balances);
+    expectSettled(balances, payments);
+    expect(payments).toHaveLength(4);
+  });
+
+  it("works in cents", () => {
+    const balances = { a: 0.1, b: 0.2, c: -0.3 };
+    const payments = simplifyDebts(balances);
+    expectSettled(balances, payments);
+    expect(payments).toHaveLength(2);
+  });
+
+  it("falls back to at most n - 1 payments for large groups", () => {
+    const balances: OwedBalances = {};
+    for (let i = 0; i < 20; i++) {
+      balances[`u${i}`] = i % 2 ? 3 : -3;
+    }
+    const payments = simplifyDebts(balances);
+    expectSettled(balances, payments);
+    expect(payments.length).toBeLessThanOrEqual(19);
+  });
+
+  it("settles random groups", () => {
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2 ** 31;
+      return seed / 2 ** 31;
+    };
+
+    for (let run = 0; run < 200; run++) {
+      const size = 2 + (run % 9);
+      const balances: OwedBalances = {};
+      let sum = 0;
+      for (let i = 0; i < size - 1; i++) {
+        const cents = Math.floor(random() * 2001) - 1000;
+        balances[`u${i}`] = cents / 100;
+        sum += cents;
+      }
+      balances.last = -sum / 100;
+
+      const payments = simplifyDebts(balances);
+      expectSettled(balances, payments);
+      const withBalance = Object.values(balances).filter((b) => b !== 0);
+      expect(payments.length).toBeLessThanOrEqual(
+        Math.max(0, withBalance.length - 1),
+      );
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { computeSplitShares } from "../src/services/splitService.js";
+
+const amounts = (shares: { amount: number }[]) => shares.map((s) => s.amount);
+const total = (shares: { amount: number }[]) =>
+  Math.round(shares.reduce((sum, s) => sum + s.amount * 100, 0)) / 100;
+
+describe("computeSplitShares", () => {
+  it("splits equally, leftover cents to the earliest participants", () => {
+    const shares = computeSplitShares(100, "equal", [
+      { userId: "a" },
+      { userId: "b" },
+      { userId: "c" },
+    ]);
+    expect(amounts(shares)).toEqual([33.34, 33.33, 33.33]);
+    expect(shares[0]).not.toHaveProperty("value");
+  });
+
+  it("keeps exact amounts and rejects ones that don't add up", () => {
+    const shares = computeSplitShares(50, "exact", [
+      { userId: "a", value: 20.5 },
+      { userId: "b", value: 29.5 },
+    ]);
+    expect(amounts(shares)).toEqual([20.5, 29.5]);
+
+    expect(() =>
+      computeSplitShares(50, "exact", [
+        { userId: "a", value: 20 },
+        { userId: "b", value: 20 },
+      ]),
+    ).toThrow("Amounts add up to 40, not the total of 50");
+  });
+
+  it("splits by percentage to the cent", () => {
+    const shares = computeSplitShares(10, "percentage", [
+      { userId: "a", value: 33.33 },
+      { userId: "b", value: 33.33 },
+      { userId: "c", value: 33.34 },
+    ]);
+    expect(total(shares)).toBe(10);
+    expect(amounts(shares)).toEqual([3.33, 3.33, 3.34]);
+
+    expect(() =>
+      computeSplitShares(10, "percentage", [
+        { userId: "a", value: 50 },
+        { userId: "b", value: 40 },
+      ]),
+    ).toThrow("Percentages add up to 90%, not 100%");
+  });
+
+  it("splits by share count", () => {
+    const shares = computeSplitShares(90, "shares", [
+      { userId: "a", value: 2 },
+      { userId: "b", value: 1 },
+    ]);
+    expect(amounts(shares)).toEqual([60, 30]);
+    expect(shares.map((s) => s.value)).toEqual([2, 1]);
+  });
+
+  it("always adds up to the total", () => {
+    for (const amount of [0.01, 0.1, 1, 9.99, 100, 1234.57]) {
+      for (let n = 1; n <= 7; n++) {
+        const participants = Array.from({ length: n }, (_, i) => ({
+          userId: `u${i}`,
+          value: i + 1,
+        }));
+        expect(total(computeSplitShares(amount, "equal", participants))).toBe(
+          amount,
+        );
+        expect(total(computeSplitShares(amount, "shares", participants))).toBe(
+          amount,
+        );
+      }
+    }
+  });
+
+  it("rejects bad participant lists with a 400", () => {
+    expect(() => computeSplitShares(10, "equal", [])).toThrow(
+      "At least one participant required",
+    );
+    expect(() =>
+      computeSplitShares(10, "equal", [{ userId: "a" }, { userId: "a" }]),
+    ).toThrow("Each participant can only appear once");
+    expect(() =>
+      computeSplitShares(10, "shares", [{ userId: "a", value: -1 }]),
+    ).toThrow("non-negative value");
+    expect(() =>
+      computeSplitShares(10, "shares", [{ userId: "a", value: 0 }]),
+    ).toThrow("Shares must add up to more than 0");
+
+    try {
+      computeSplitShares(10, "equal", []);
+    } catch (error: any) {
+      expect(error.statusCode).toBe(400);
+    }
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  buildOtpAuthUri,
+  currentStep,
+  generateTotpSecret,
+  verifyTotp,
+} from "../src/utils/totp.js";
+
+// RFC 6238 test secret "12345678901234567890", base32 encoded
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("totp", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("matches the RFC 6238 test vectors (last 6 digits)", () => {
+    vi.useFakeTimers();
+
+    vi.setSystemTime(59 * 1000);
+    expect(verifyTotp(RFC_SECRET, "287082", 0)).toBe(1);
+
+    vi.setSystemTime(1111111109 * 1000);
+    expect(verifyTotp(RFC_SECRET, "081804", 0)).toBe(currentStep());
+
+    vi.setSystemTime(2000000000 * 1000);
+    expect(verifyTotp(RFC_SECRET, "279037", 0)).toBe(currentStep());
+  });
+
+  it("allows one step of clock drift", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(59 * 1000 + 30 * 1000); // one step after the code
+
+    expect(verifyTotp(RFC_SECRET, "287082")).toBe(1);
+    expect(verifyTotp(RFC_SECRET, "287082", 0)).toBeNull();
+  });
+
+  it("rejects malformed and wrong codes", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(59 * 1000);
+
+    expect(verifyTotp(RFC_SECRET, "28708")).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "28708a")).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "000000")).toBeNull();
+  });
+
+  it("generates 160-bit base32 secrets", () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it("builds an otpauth URI", () => {
+    const uri = buildOtpAuthUri("ABC", "user@example.com", "Finzz");
+    expect(uri).toBe(
+      "otpauth://totp/Finzz%3Auser%40example.com?secret=ABC&issuer=Finzz&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+});